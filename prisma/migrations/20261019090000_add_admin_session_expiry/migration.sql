@@ -0,0 +1,10 @@
+ALTER TABLE "admin_sessions" ADD COLUMN "public_id" TEXT;
+ALTER TABLE "admin_sessions" ADD COLUMN "ip_address" TEXT;
+ALTER TABLE "admin_sessions" ADD COLUMN "user_agent" TEXT;
+ALTER TABLE "admin_sessions" ADD COLUMN "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE "admin_sessions" SET "public_id" = md5(random()::text || "id");
+ALTER TABLE "admin_sessions" ALTER COLUMN "public_id" SET NOT NULL;
+
+CREATE UNIQUE INDEX "admin_sessions_public_id_key" ON "admin_sessions"("public_id");
+CREATE INDEX "admin_sessions_last_used_at_idx" ON "admin_sessions"("last_used_at");
@@ -0,0 +1,6 @@
+CREATE TYPE "admin_role" AS ENUM ('owner', 'analyst', 'viewer');
+
+ALTER TABLE "admin_users" ADD COLUMN "role" "admin_role" NOT NULL DEFAULT 'viewer';
+
+-- Existing admins were all created from ADMIN_EMAIL and had full access.
+UPDATE "admin_users" SET "role" = 'owner';
@@ -0,0 +1,16 @@
+CREATE TYPE "login_attempt_outcome" AS ENUM ('success', 'invalid_credentials', 'throttled');
+
+CREATE TABLE "login_attempts" (
+    "id" SERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "outcome" "login_attempt_outcome" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_attempts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "login_attempts_email_created_at_idx" ON "login_attempts"("email", "created_at");
+CREATE INDEX "login_attempts_ip_address_created_at_idx" ON "login_attempts"("ip_address", "created_at");
+CREATE INDEX "login_attempts_created_at_idx" ON "login_attempts"("created_at");
@@ -0,0 +1,53 @@
+CREATE TABLE "sites" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "domain" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sites_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "sites_key_key" ON "sites"("key");
+
+-- Everything tracked before multi-site support belongs to the original site.
+INSERT INTO "sites" ("key", "name", "updated_at") VALUES ('default', 'Default', CURRENT_TIMESTAMP);
+
+ALTER TABLE "sessions" ADD COLUMN "site_id" INTEGER;
+ALTER TABLE "clicks" ADD COLUMN "site_id" INTEGER;
+ALTER TABLE "page_views" ADD COLUMN "site_id" INTEGER;
+ALTER TABLE "pings" ADD COLUMN "site_id" INTEGER;
+ALTER TABLE "goals" ADD COLUMN "site_id" INTEGER;
+ALTER TABLE "daily_stats" ADD COLUMN "site_id" INTEGER;
+
+UPDATE "sessions" SET "site_id" = (SELECT "id" FROM "sites" WHERE "key" = 'default');
+UPDATE "clicks" SET "site_id" = (SELECT "id" FROM "sites" WHERE "key" = 'default');
+UPDATE "page_views" SET "site_id" = (SELECT "id" FROM "sites" WHERE "key" = 'default');
+UPDATE "pings" SET "site_id" = (SELECT "id" FROM "sites" WHERE "key" = 'default');
+UPDATE "goals" SET "site_id" = (SELECT "id" FROM "sites" WHERE "key" = 'default');
+UPDATE "daily_stats" SET "site_id" = (SELECT "id" FROM "sites" WHERE "key" = 'default');
+
+ALTER TABLE "sessions" ALTER COLUMN "site_id" SET NOT NULL;
+ALTER TABLE "clicks" ALTER COLUMN "site_id" SET NOT NULL;
+ALTER TABLE "page_views" ALTER COLUMN "site_id" SET NOT NULL;
+ALTER TABLE "pings" ALTER COLUMN "site_id" SET NOT NULL;
+ALTER TABLE "goals" ALTER COLUMN "site_id" SET NOT NULL;
+ALTER TABLE "daily_stats" ALTER COLUMN "site_id" SET NOT NULL;
+
+ALTER TABLE "daily_stats" DROP CONSTRAINT "daily_stats_pkey";
+ALTER TABLE "daily_stats" ADD CONSTRAINT "daily_stats_pkey" PRIMARY KEY ("site_id", "date");
+
+CREATE INDEX "sessions_site_id_start_time_idx" ON "sessions"("site_id", "start_time");
+CREATE INDEX "clicks_site_id_timestamp_idx" ON "clicks"("site_id", "timestamp");
+CREATE INDEX "page_views_site_id_timestamp_idx" ON "page_views"("site_id", "timestamp");
+CREATE INDEX "pings_site_id_timestamp_idx" ON "pings"("site_id", "timestamp");
+CREATE INDEX "goals_site_id_timestamp_idx" ON "goals"("site_id", "timestamp");
+CREATE INDEX "daily_stats_date_idx" ON "daily_stats"("date");
+
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "clicks" ADD CONSTRAINT "clicks_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "page_views" ADD CONSTRAINT "page_views_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "pings" ADD CONSTRAINT "pings_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "goals" ADD CONSTRAINT "goals_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "daily_stats" ADD CONSTRAINT "daily_stats_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
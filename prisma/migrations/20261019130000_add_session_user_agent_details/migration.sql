@@ -0,0 +1,3 @@
+ALTER TABLE "sessions" ADD COLUMN "browser_version" TEXT;
+ALTER TABLE "sessions" ADD COLUMN "os_version" TEXT;
+ALTER TABLE "sessions" ADD COLUMN "is_bot" BOOLEAN NOT NULL DEFAULT false;
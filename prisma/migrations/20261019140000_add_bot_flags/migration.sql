@@ -0,0 +1,9 @@
+ALTER TABLE "clicks" ADD COLUMN "is_bot" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "page_views" ADD COLUMN "is_bot" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "pings" ADD COLUMN "is_bot" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "goals" ADD COLUMN "is_bot" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "daily_stats" ADD COLUMN "is_bot" BOOLEAN NOT NULL DEFAULT false;
+
+-- Bot traffic gets its own aggregate row per day so totals can include or exclude it.
+ALTER TABLE "daily_stats" DROP CONSTRAINT "daily_stats_pkey";
+ALTER TABLE "daily_stats" ADD CONSTRAINT "daily_stats_pkey" PRIMARY KEY ("site_id", "date", "is_bot");
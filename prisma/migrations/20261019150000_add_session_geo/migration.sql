@@ -0,0 +1,5 @@
+ALTER TABLE "sessions" ADD COLUMN "region" TEXT;
+ALTER TABLE "sessions" ADD COLUMN "latitude" DOUBLE PRECISION;
+ALTER TABLE "sessions" ADD COLUMN "longitude" DOUBLE PRECISION;
+
+CREATE INDEX "sessions_country_idx" ON "sessions"("country");
@@ -0,0 +1,11 @@
+ALTER TABLE "sessions" ADD COLUMN "visitor_hash" TEXT;
+
+CREATE INDEX "sessions_visitor_hash_idx" ON "sessions"("visitor_hash");
+
+CREATE TABLE "visitor_salts" (
+    "date" DATE NOT NULL,
+    "salt" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "visitor_salts_pkey" PRIMARY KEY ("date")
+);
@@ -0,0 +1,15 @@
+CREATE TABLE "audit_logs" (
+    "id" SERIAL NOT NULL,
+    "admin_user_id" INTEGER,
+    "action" TEXT NOT NULL,
+    "subject" JSONB NOT NULL,
+    "result" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "audit_logs_created_at_idx" ON "audit_logs"("created_at");
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs"("action");
+
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_admin_user_id_fkey" FOREIGN KEY ("admin_user_id") REFERENCES "admin_users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
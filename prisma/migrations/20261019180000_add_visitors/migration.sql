@@ -0,0 +1,20 @@
+CREATE TABLE "visitors" (
+    "id" SERIAL NOT NULL,
+    "site_id" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "first_seen_at" TIMESTAMP(3) NOT NULL,
+    "last_seen_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "visitors_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "visitors_site_id_key_key" ON "visitors"("site_id", "key");
+
+ALTER TABLE "visitors" ADD CONSTRAINT "visitors_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "sessions" ADD COLUMN "visitor_id" INTEGER;
+
+CREATE INDEX "sessions_visitor_id_idx" ON "sessions"("visitor_id");
+
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_visitor_id_fkey" FOREIGN KEY ("visitor_id") REFERENCES "visitors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
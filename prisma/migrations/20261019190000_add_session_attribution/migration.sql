@@ -0,0 +1,14 @@
+ALTER TABLE "sessions" ADD COLUMN "referrer" TEXT,
+ADD COLUMN "referrer_host" TEXT,
+ADD COLUMN "referrer_source" TEXT,
+ADD COLUMN "referrer_name" TEXT,
+ADD COLUMN "landing_page" TEXT,
+ADD COLUMN "utm_source" TEXT,
+ADD COLUMN "utm_medium" TEXT,
+ADD COLUMN "utm_campaign" TEXT,
+ADD COLUMN "utm_term" TEXT,
+ADD COLUMN "utm_content" TEXT;
+
+CREATE INDEX "sessions_referrer_source_idx" ON "sessions"("referrer_source");
+
+CREATE INDEX "sessions_utm_campaign_idx" ON "sessions"("utm_campaign");
@@ -0,0 +1,15 @@
+CREATE TABLE "funnels" (
+    "id" SERIAL NOT NULL,
+    "site_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "steps" JSONB NOT NULL,
+    "window_minutes" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "funnels_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "funnels_site_id_idx" ON "funnels"("site_id");
+
+ALTER TABLE "funnels" ADD CONSTRAINT "funnels_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+CREATE TYPE "goal_match_type" AS ENUM ('pageview', 'click', 'event');
+
+CREATE TABLE "goal_definitions" (
+    "id" SERIAL NOT NULL,
+    "site_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "match_type" "goal_match_type" NOT NULL,
+    "match_value" TEXT NOT NULL,
+    "value" DOUBLE PRECISION,
+    "currency" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "goal_definitions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "goal_definitions_site_id_name_key" ON "goal_definitions"("site_id", "name");
+
+ALTER TABLE "goal_definitions" ADD CONSTRAINT "goal_definitions_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "goals" ADD COLUMN "definition_id" INTEGER,
+ADD COLUMN "currency" TEXT;
+
+CREATE INDEX "goals_definition_id_idx" ON "goals"("definition_id");
+
+ALTER TABLE "goals" ADD CONSTRAINT "goals_definition_id_fkey" FOREIGN KEY ("definition_id") REFERENCES "goal_definitions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
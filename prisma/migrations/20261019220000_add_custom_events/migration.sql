@@ -0,0 +1,25 @@
+CREATE TABLE "custom_events" (
+    "id" SERIAL NOT NULL,
+    "site_id" INTEGER NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "properties" JSONB NOT NULL DEFAULT '{}',
+    "page_path" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "is_bot" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "custom_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "custom_events_session_id_idx" ON "custom_events"("session_id");
+
+CREATE INDEX "custom_events_site_id_name_timestamp_idx" ON "custom_events"("site_id", "name", "timestamp");
+
+CREATE INDEX "custom_events_timestamp_idx" ON "custom_events"("timestamp");
+
+-- Lets property filters such as properties @> '{"plan":"pro"}' use an index.
+CREATE INDEX "custom_events_properties_idx" ON "custom_events" USING GIN ("properties" jsonb_path_ops);
+
+ALTER TABLE "custom_events" ADD CONSTRAINT "custom_events_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "custom_events" ADD CONSTRAINT "custom_events_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+CREATE TABLE "click_categories" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "rules" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "click_categories_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "click_categories_name_key" ON "click_categories"("name");
+
+-- The sections the top-links and top-setup-items reports used to hard-code.
+INSERT INTO "click_categories" ("name", "rules", "updated_at") VALUES
+    ('links', '[{"type": "kind", "value": "social"}, {"type": "kind", "value": "link-card"}]', CURRENT_TIMESTAMP),
+    ('setup', '[{"type": "kind", "value": "setup"}]', CURRENT_TIMESTAMP);
@@ -0,0 +1,5 @@
+ALTER TABLE "clicks" ADD COLUMN "viewport_width" INTEGER,
+ADD COLUMN "viewport_height" INTEGER,
+ADD COLUMN "page_height" INTEGER;
+
+CREATE INDEX "clicks_page_path_timestamp_idx" ON "clicks"("page_path", "timestamp");
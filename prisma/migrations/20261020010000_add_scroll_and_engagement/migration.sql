@@ -0,0 +1,7 @@
+ALTER TABLE "pings" ADD COLUMN "scroll_depth" INTEGER,
+ADD COLUMN "engaged_seconds" INTEGER,
+ADD COLUMN "visible_seconds" INTEGER;
+
+ALTER TABLE "page_views" ADD COLUMN "max_scroll_depth" INTEGER,
+ADD COLUMN "engaged_seconds" INTEGER,
+ADD COLUMN "visible_seconds" INTEGER;
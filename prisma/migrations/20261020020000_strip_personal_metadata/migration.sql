@@ -0,0 +1,16 @@
+-- Events recorded before IP anonymization copied the whole payload into metadata.
+UPDATE "page_views"
+SET "metadata" = "metadata" - 'ip' - 'ipAddress' - 'latitude' - 'longitude'
+WHERE "metadata" ?| ARRAY['ip', 'ipAddress', 'latitude', 'longitude'];
+
+UPDATE "clicks"
+SET "metadata" = "metadata" - 'ip' - 'ipAddress' - 'latitude' - 'longitude'
+WHERE "metadata" ?| ARRAY['ip', 'ipAddress', 'latitude', 'longitude'];
+
+UPDATE "pings"
+SET "metadata" = "metadata" - 'ip' - 'ipAddress' - 'latitude' - 'longitude'
+WHERE "metadata" ?| ARRAY['ip', 'ipAddress', 'latitude', 'longitude'];
+
+UPDATE "goals"
+SET "metadata" = "metadata" - 'ip' - 'ipAddress' - 'latitude' - 'longitude'
+WHERE "metadata" ?| ARRAY['ip', 'ipAddress', 'latitude', 'longitude'];
@@ -0,0 +1,3 @@
+-- NULL means the session never entered daily_stats.sessions. Sessions recorded before this column
+-- existed stay NULL, so erasing them leaves the daily session totals untouched.
+ALTER TABLE "sessions" ADD COLUMN "counted_is_bot" BOOLEAN;
@@ -0,0 +1,16 @@
+ALTER TABLE "goals" ADD COLUMN "dedupe_key" TEXT;
+
+-- Keep the earliest automatic goal per session and definition; duplicates recorded before the key existed stay unkeyed.
+UPDATE "goals" g
+SET "dedupe_key" = g."session_id" || ':' || g."definition_id"
+FROM (
+    SELECT DISTINCT ON ("session_id", "definition_id") "id"
+    FROM "goals"
+    WHERE "session_id" IS NOT NULL
+      AND "definition_id" IS NOT NULL
+      AND "metadata"->>'source' IN ('pageview', 'click')
+    ORDER BY "session_id", "definition_id", "timestamp", "id"
+) first_goal
+WHERE g."id" = first_goal."id";
+
+CREATE UNIQUE INDEX "goals_dedupe_key_key" ON "goals"("dedupe_key");
@@ -0,0 +1,8 @@
+-- Existing rows, including the seeded "links" and "setup", stay shared by every site.
+ALTER TABLE "click_categories" ADD COLUMN "site_id" INTEGER;
+
+DROP INDEX "click_categories_name_key";
+
+CREATE UNIQUE INDEX "click_categories_site_id_name_key" ON "click_categories"("site_id", "name");
+
+ALTER TABLE "click_categories" ADD CONSTRAINT "click_categories_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+CREATE TYPE "ip_address_mode" AS ENUM ('raw', 'truncated');
+
+-- Left null on existing rows: their form is unknown, so the anonymization job treats them as raw.
+ALTER TABLE "sessions" ADD COLUMN "ip_address_mode" "ip_address_mode";
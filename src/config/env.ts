@@ -1,6 +1,73 @@
+import type { DoNotTrackMode, IpPrivacyMode } from "../lib/privacy";
+
+// Mode switches fail at startup on a typo instead of silently falling back to another mode.
+function oneOf<T extends string>(name: string, value: string | undefined, allowed: readonly T[], fallback: T): T {
+  const chosen = value?.trim() || fallback;
+  if (!allowed.includes(chosen as T)) {
+    throw new Error(`${name} must be one of ${allowed.join(", ")} (got "${chosen}").`);
+  }
+
+  return chosen as T;
+}
+
+// TRUST_PROXY: unset/false trusts no proxy, "true" trusts all, a number trusts that many hops,
+// anything else is a comma-separated list of proxy addresses or CIDR ranges.
+function parseTrustProxy(value?: string): boolean | number | string {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed === "false") {
+    return false;
+  }
+
+  if (trimmed === "true") {
+    return true;
+  }
+
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
 export const env = {
   host: process.env.HOST ?? "0.0.0.0",
   port: Number(process.env.PORT ?? 3000),
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
   adminEmail: process.env.ADMIN_EMAIL,
   adminPassword: process.env.ADMIN_PASSWORD,
+  adminSessionTtlHours: Number(process.env.ADMIN_SESSION_TTL_HOURS ?? 24 * 7),
+  adminSessionIdleMinutes: Number(process.env.ADMIN_SESSION_IDLE_MINUTES ?? 60 * 24),
+  adminSessionCleanupMinutes: Number(process.env.ADMIN_SESSION_CLEANUP_MINUTES ?? 60),
+  loginMaxFailuresPerEmail: Number(process.env.LOGIN_MAX_FAILURES_PER_EMAIL ?? 5),
+  loginMaxFailuresPerIp: Number(process.env.LOGIN_MAX_FAILURES_PER_IP ?? 20),
+  loginLockoutMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15),
+  loginBackoffBaseSeconds: Number(process.env.LOGIN_BACKOFF_BASE_SECONDS ?? 1),
+  loginAttemptRetentionDays: Number(process.env.LOGIN_ATTEMPT_RETENTION_DAYS ?? 90),
+  trackBatchMaxEvents: Number(process.env.TRACK_BATCH_MAX_EVENTS ?? 50),
+  botFilterMode: oneOf("BOT_FILTER_MODE", process.env.BOT_FILTER_MODE, ["flag", "drop"], "flag"),
+  botDatacenterRangesFile: process.env.BOT_DATACENTER_RANGES_FILE,
+  botMaxEventsPerMinute: Number(process.env.BOT_MAX_EVENTS_PER_MINUTE ?? 120),
+  geoipDatabasePath: process.env.GEOIP_DATABASE_PATH,
+  privacyIpMode: oneOf<IpPrivacyMode>(
+    "PRIVACY_IP_MODE",
+    process.env.PRIVACY_IP_MODE,
+    ["raw", "truncate", "hash"],
+    "truncate",
+  ),
+  privacyDntMode: oneOf<DoNotTrackMode>(
+    "PRIVACY_DNT_MODE",
+    process.env.PRIVACY_DNT_MODE,
+    ["ignore", "anonymize", "drop"],
+    "anonymize",
+  ),
+  // Retention in days per raw event table; 0 keeps rows forever. DailyStats is never purged.
+  retentionDays: {
+    pings: Number(process.env.RETENTION_PINGS_DAYS ?? 0),
+    clicks: Number(process.env.RETENTION_CLICKS_DAYS ?? 0),
+    pageViews: Number(process.env.RETENTION_PAGE_VIEWS_DAYS ?? 0),
+    goals: Number(process.env.RETENTION_GOALS_DAYS ?? 0),
+    customEvents: Number(process.env.RETENTION_CUSTOM_EVENTS_DAYS ?? 0),
+    sessions: Number(process.env.RETENTION_SESSIONS_DAYS ?? 0),
+  },
+  retentionIntervalMinutes: Number(process.env.RETENTION_INTERVAL_MINUTES ?? 60),
+  retentionBatchSize: Number(process.env.RETENTION_BATCH_SIZE ?? 1000),
+  retentionMaxBatchesPerRun: Number(process.env.RETENTION_MAX_BATCHES_PER_RUN ?? 50),
+  // Single-pageview sessions that stay at least this long are engaged, not bounces; 0 disables the check.
+  bounceEngagementSeconds: Number(process.env.BOUNCE_ENGAGEMENT_SECONDS ?? 10),
 };
@@ -0,0 +1,171 @@
+import { readFile } from "node:fs/promises";
+import { isIP } from "node:net";
+import { env } from "../config/env";
+import { parseUserAgent } from "./user-agent";
+
+export type BotSignals = {
+  userAgent?: string;
+  ipAddress?: string;
+  acceptLanguage?: string;
+  secChUa?: string;
+  webdriver?: boolean;
+  screenWidth?: number;
+  screenHeight?: number;
+};
+
+export type BotVerdict = {
+  isBot: boolean;
+  reason?: "user-agent" | "headless" | "datacenter-ip" | "rate" | "session";
+};
+
+type CidrRange = {
+  version: 4 | 6;
+  network: bigint;
+  mask: bigint;
+};
+
+const RATE_WINDOW_MS = 60_000;
+const requestLog = new Map<string, number[]>();
+let datacenterRanges: CidrRange[] = [];
+
+function ipToBigInt(ip: string): { version: 4 | 6; value: bigint } | undefined {
+  const version = isIP(ip);
+
+  if (version === 4) {
+    const value = ip.split(".").reduce((acc, part) => (acc << 8n) + BigInt(Number(part)), 0n);
+    return { version: 4, value };
+  }
+
+  if (version === 6) {
+    // Expand "::" and any embedded IPv4 tail into eight 16-bit groups.
+    let normalized = ip.toLowerCase();
+    const v4Tail = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/);
+    if (v4Tail) {
+      const v4 = ipToBigInt(v4Tail[1])!.value;
+      normalized = normalized.replace(
+        v4Tail[1],
+        `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`,
+      );
+    }
+
+    const [head, tail] = normalized.split("::");
+    const headGroups = head ? head.split(":") : [];
+    const tailGroups = tail ? tail.split(":") : [];
+    const missing = normalized.includes("::") ? 8 - headGroups.length - tailGroups.length : 0;
+    const groups = [...headGroups, ...Array<string>(missing).fill("0"), ...tailGroups];
+
+    const value = groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n);
+    return { version: 6, value };
+  }
+
+  return undefined;
+}
+
+function parseCidr(line: string): CidrRange | undefined {
+  const [address, prefixText] = line.split("/");
+  const parsed = ipToBigInt(address);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const bits = parsed.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
+    return undefined;
+  }
+
+  const mask = ((1n << BigInt(bits)) - 1n) ^ ((1n << BigInt(bits - prefix)) - 1n);
+  return { version: parsed.version, network: parsed.value & mask, mask };
+}
+
+// Loaded once at startup so a missing or malformed file stops the server instead of failing requests.
+export async function initBotDetection() {
+  if (!env.botDatacenterRangesFile) {
+    return false;
+  }
+
+  const contents = await readFile(env.botDatacenterRangesFile, "utf8");
+  const ranges: CidrRange[] = [];
+
+  contents.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.split("#")[0].trim();
+    if (!line) {
+      return;
+    }
+
+    const range = parseCidr(line);
+    if (!range) {
+      throw new Error(`Invalid CIDR range on line ${index + 1} of ${env.botDatacenterRangesFile}: ${line}`);
+    }
+
+    ranges.push(range);
+  });
+
+  datacenterRanges = ranges;
+  return true;
+}
+
+export function isDatacenterIp(ipAddress: string): boolean {
+  const parsed = ipToBigInt(ipAddress.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, ""));
+  if (!parsed) {
+    return false;
+  }
+
+  return datacenterRanges.some(
+    (range) => range.version === parsed.version && (parsed.value & range.mask) === range.network,
+  );
+}
+
+function looksHeadless(signals: BotSignals): boolean {
+  if (signals.webdriver) {
+    return true;
+  }
+
+  if (signals.secChUa && /headless/i.test(signals.secChUa)) {
+    return true;
+  }
+
+  return signals.screenWidth === 0 || signals.screenHeight === 0;
+}
+
+function exceedsRate(key: string, limit: number, now = Date.now()): boolean {
+  const windowStart = now - RATE_WINDOW_MS;
+  const recent = (requestLog.get(key) ?? []).filter((at) => at > windowStart);
+  recent.push(now);
+  requestLog.set(key, recent);
+
+  if (requestLog.size > 10_000) {
+    for (const [entryKey, timestamps] of requestLog) {
+      if (timestamps[timestamps.length - 1] <= windowStart) {
+        requestLog.delete(entryKey);
+      }
+    }
+  }
+
+  return recent.length > limit;
+}
+
+export function detectBot(signals: BotSignals): BotVerdict {
+  if (!signals.userAgent || parseUserAgent(signals.userAgent).isBot) {
+    return { isBot: true, reason: "user-agent" };
+  }
+
+  if (looksHeadless(signals)) {
+    return { isBot: true, reason: "headless" };
+  }
+
+  if (signals.ipAddress && isDatacenterIp(signals.ipAddress)) {
+    return { isBot: true, reason: "datacenter-ip" };
+  }
+
+  // Most scripted clients omit Accept-Language, but so do sendBeacon/fetch from some privacy tools
+  // and webviews; it only tightens the rate limit instead of flagging on its own.
+  const rateLimit = signals.acceptLanguage
+    ? env.botMaxEventsPerMinute
+    : Math.max(1, Math.floor(env.botMaxEventsPerMinute / 2));
+  if (signals.ipAddress && exceedsRate(signals.ipAddress, rateLimit)) {
+    return { isBot: true, reason: "rate" };
+  }
+
+  return { isBot: false };
+}
@@ -0,0 +1,47 @@
+export type EventPropertyValue = string | number | boolean;
+
+export type ParsedCustomEvent = {
+  name: string;
+  properties: Record<string, EventPropertyValue>;
+};
+
+const MAX_NAME_LENGTH = 100;
+const MAX_PROPERTIES = 30;
+const MAX_STRING_LENGTH = 500;
+const PROPERTY_KEY_PATTERN = /^[A-Za-z0-9_.:-]{1,50}$/;
+
+// Properties are a flat map so every key can be grouped on with a single properties->>'key' lookup.
+export function parseCustomEvent(payload: Record<string, unknown>): ParsedCustomEvent | { error: string } {
+  const rawName = payload.name ?? payload.event;
+  const name = typeof rawName === "string" ? rawName.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { error: `Event 'name' is required and must have at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  const rawProperties = payload.properties ?? payload.props ?? {};
+  if (typeof rawProperties !== "object" || rawProperties === null || Array.isArray(rawProperties)) {
+    return { error: "Event 'properties' must be an object" };
+  }
+
+  const entries = Object.entries(rawProperties);
+  if (entries.length > MAX_PROPERTIES) {
+    return { error: `Events accept at most ${MAX_PROPERTIES} properties` };
+  }
+
+  const properties: Record<string, EventPropertyValue> = {};
+  for (const [key, value] of entries) {
+    if (!PROPERTY_KEY_PATTERN.test(key)) {
+      return { error: `Invalid property key '${key}'` };
+    }
+
+    if (typeof value === "string") {
+      properties[key] = value.slice(0, MAX_STRING_LENGTH);
+    } else if ((typeof value === "number" && Number.isFinite(value)) || typeof value === "boolean") {
+      properties[key] = value;
+    } else if (value !== null && value !== undefined) {
+      return { error: `Property '${key}' must be a string, number or boolean` };
+    }
+  }
+
+  return { name, properties };
+}
@@ -1,7 +1,14 @@
 import { randomBytes, randomUUID, scryptSync, timingSafeEqual } from "node:crypto";
+import { isIP } from "node:net";
 import { prisma } from "./prisma";
-import { Prisma } from "@prisma/client";
+import { AdminRole, GoalMatchType, LoginAttemptOutcome, Prisma } from "@prisma/client";
 import { env } from "../config/env";
+import { ParsedCustomEvent, parseCustomEvent } from "./custom-events";
+import { GoalMatchTarget, matchesGoalRule, parseSimpleSelector } from "./goal-matching";
+import { hashVisitor, truncateIp, withoutPersonalFields } from "./privacy";
+import { publishLiveEvent } from "./realtime";
+import { resolveAttribution } from "./referrer";
+import { parseUserAgent } from "./user-agent";
 
 type AnyObject = Record<string, unknown>;
 export type StatsPeriod = "day" | "week" | "month" | "year" | "custom";
@@ -10,16 +17,149 @@ export type StatsRangeInput = {
   period?: StatsPeriod;
   from?: string;
   to?: string;
+  siteId?: number;
+  includeBots?: boolean;
+};
+
+export type SiteInput = {
+  name: string;
+  domain?: string;
 };
 
 type DateRange = {
   gte: Date;
   lte: Date;
 };
+export type AdminUserInput = {
+  email: string;
+  password: string;
+  role?: AdminRole;
+};
+
+export type AdminUserUpdate = {
+  role?: AdminRole;
+  isActive?: boolean;
+};
+
+type AdminSessionContext = {
+  ipAddress?: string;
+  userAgent?: string;
+};
+
+export type LoginAttemptFilter = {
+  email?: string;
+  ipAddress?: string;
+  outcome?: LoginAttemptOutcome;
+  limit?: number;
+};
+export type TrackBatchResult =
+  | { index: number; status: "accepted" }
+  | { index: number; status: "rejected"; error: string };
+
+export type FunnelStep = {
+  type: "page" | "goal";
+  match: string;
+  label?: string;
+};
+
+export type FunnelInput = {
+  siteId: number;
+  name: string;
+  steps: FunnelStep[];
+  windowMinutes?: number | null;
+};
+
+export type GoalDefinitionInput = {
+  siteId: number;
+  name: string;
+  matchType: GoalMatchType;
+  matchValue: string;
+  value?: number | null;
+  currency?: string | null;
+  isActive?: boolean;
+};
+
+type ActiveGoalDefinition = {
+  id: number;
+  name: string;
+  matchType: GoalMatchType;
+  matchValue: string;
+  value: number | null;
+  currency: string | null;
+};
+
+export type ClickCategoryRule = {
+  type: "kind" | "selector" | "path";
+  value: string;
+};
+
+export type ClickCategoryInput = {
+  siteId: number;
+  name: string;
+  rules: ClickCategoryRule[];
+};
+
+export type DataSubjectQuery = {
+  sessionId?: string;
+  ipAddress?: string;
+  visitorHash?: string;
+};
+
+export type SessionListFilter = StatsRangeInput & {
+  city?: string;
+  country?: string;
+  deviceType?: string;
+  browser?: string;
+  entryPage?: string;
+  hasGoal?: boolean;
+  page?: number;
+  pageSize?: number;
+};
+
+export type SessionTimelineStep = {
+  type: "pageview" | "click" | "ping" | "goal" | "event";
+  id: number;
+  timestamp: Date;
+  path: string | null;
+  secondsSinceStart: number;
+  secondsSincePrevious: number | null;
+  details: Record<string, unknown>;
+};
+
+export type RetentionTable = "pings" | "clicks" | "pageViews" | "goals" | "customEvents" | "sessions" | "visitors";
+
+export type EventsReportFilter = {
+  name?: string;
+  property?: string;
+  where?: { key: string; value: string };
+};
+
+type DbClient = Prisma.TransactionClient;
+type EventScope = {
+  siteId: number;
+  isBot: boolean;
+};
 type DailyMetricField = "sessions" | "pageViews" | "pings" | "clicks" | "goals";
-export type ReportMetric = "sessions" | "pageViews" | "pings" | "clicks" | "goals";
+export type ReportMetric =
+  | "sessions"
+  | "pageViews"
+  | "pings"
+  | "clicks"
+  | "goals"
+  | "uniqueVisitors"
+  | "returningVisitors";
 
 const startedAt = new Date().toISOString();
+const ADMIN_SESSION_TOUCH_INTERVAL_MS = 60_000;
+const SITE_CACHE_TTL_MS = 5 * 60_000;
+const GOAL_DEFINITION_CACHE_TTL_MS = 60_000;
+const visitorSalts = new Map<string, string>();
+const siteCache = new Map<string, { site: { id: number; key: string }; expiresAt: number }>();
+const goalDefinitionCache = new Map<number, { definitions: ActiveGoalDefinition[]; expiresAt: number }>();
+
+function isObject(value: unknown): value is AnyObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
 function asString(value: unknown): string | undefined {
   return typeof value === "string" && value.trim().length > 0 ? value : undefined;
@@ -38,6 +178,22 @@ function asNumber(value: unknown): number | undefined {
   return undefined;
 }
 
+// Screen sizes arrive as CSS pixels and may be fractional on zoomed pages.
+function asDimension(value: unknown): number | undefined {
+  const parsed = asNumber(value);
+  return parsed !== undefined && parsed > 0 ? Math.round(parsed) : undefined;
+}
+
+function asPercent(value: unknown): number | undefined {
+  const parsed = asNumber(value);
+  return parsed === undefined ? undefined : Math.round(Math.max(0, Math.min(parsed, 100)));
+}
+
+function asSeconds(value: unknown): number | undefined {
+  const parsed = asNumber(value);
+  return parsed === undefined || parsed < 0 ? undefined : Math.round(parsed);
+}
+
 function asDate(value: unknown): Date | undefined {
   if (!value) {
     return undefined;
@@ -47,6 +203,18 @@ function asDate(value: unknown): Date | undefined {
   return Number.isNaN(date.getTime()) ? undefined : date;
 }
 
+// Event times come from the client clock; a future one would pin last_ping_time (GREATEST in
+// extendSession) and keep the session "online" forever, so never accept one past the server's now.
+function asEventDate(value: unknown): Date | undefined {
+  const date = asDate(value);
+  if (!date) {
+    return undefined;
+  }
+
+  const now = new Date();
+  return date > now ? now : date;
+}
+
 function resolveDateRange(input: StatsRangeInput = {}): DateRange | undefined {
   const now = new Date();
   const period = input.period;
@@ -94,19 +262,38 @@ function toUtcDateOnly(value: Date): Date {
   return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
 }
 
-function toDailyWhere(range?: DateRange) {
-  if (!range) {
-    return undefined;
-  }
-
+function toDailyWhere(range: DateRange | undefined, rangeInput: StatsRangeInput) {
   return {
-    date: {
-      gte: toUtcDateOnly(range.gte),
-      lte: toUtcDateOnly(range.lte),
-    },
+    siteId: rangeInput.siteId,
+    isBot: rangeInput.includeBots ? undefined : false,
+    date: range
+      ? {
+          gte: toUtcDateOnly(range.gte),
+          lte: toUtcDateOnly(range.lte),
+        }
+      : undefined,
   };
 }
 
+function scopeFilterSql(alias: string, rangeInput: StatsRangeInput) {
+  const table = Prisma.raw(alias);
+  const conditions = [
+    rangeInput.siteId === undefined ? Prisma.empty : Prisma.sql`AND ${table}.site_id = ${rangeInput.siteId}`,
+    rangeInput.includeBots ? Prisma.empty : Prisma.sql`AND ${table}.is_bot = false`,
+  ];
+
+  return Prisma.join(conditions, " ");
+}
+
+// "/blog/*" style patterns become LIKE patterns; literal % and _ in paths are escaped.
+function pathPatternToLike(pattern: string): string {
+  return pattern.replace(/[\\%_]/g, (char) => `\\${char}`).replace(/\*/g, "%");
+}
+
+function eventScope(siteId: number, payload: AnyObject): EventScope {
+  return { siteId, isBot: payload.isBot === true };
+}
+
 function resolveSessionId(payload: AnyObject): string {
   return (
     asString(payload.sessionId) ??
@@ -120,6 +307,10 @@ function toJsonValue(payload: AnyObject): Prisma.InputJsonValue{
   return JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue;
 }
 
+function eventMetadata(payload: AnyObject): Prisma.InputJsonValue {
+  return toJsonValue(withoutPersonalFields(payload));
+}
+
 function normalizeEmail(email: string): string {
   return email.trim().toLowerCase();
 }
@@ -146,180 +337,759 @@ function verifyPassword(password: string, hashedPassword: string): boolean {
   return timingSafeEqual(stored, derived);
 }
 
-async function incrementDailyMetric(metric: DailyMetricField, at: Date) {
+function adminSessionExpiryCutoffs(now = new Date()) {
+  return {
+    createdBefore: new Date(now.getTime() - env.adminSessionTtlHours * 60 * 60 * 1000),
+    lastUsedBefore: new Date(now.getTime() - env.adminSessionIdleMinutes * 60 * 1000),
+  };
+}
+
+function activeAdminSessionWhere(now = new Date()) {
+  const cutoffs = adminSessionExpiryCutoffs(now);
+
+  return {
+    createdAt: { gte: cutoffs.createdBefore },
+    lastUsedAt: { gte: cutoffs.lastUsedBefore },
+  };
+}
+
+async function incrementDailyMetric(
+  scope: EventScope,
+  metric: DailyMetricField,
+  at: Date,
+  amount = 1,
+  client: DbClient = prisma,
+) {
   const day = toUtcDateOnly(at);
 
-  await prisma.dailyStats.upsert({
-    where: { date: day },
+  await client.dailyStats.upsert({
+    where: { siteId_date_isBot: { siteId: scope.siteId, date: day, isBot: scope.isBot } },
     update: {
-      [metric]: { increment: 1 },
+      [metric]: { increment: amount },
     },
     create: {
+      siteId: scope.siteId,
       date: day,
-      sessions: metric === "sessions" ? 1 : 0,
-      pageViews: metric === "pageViews" ? 1 : 0,
-      pings: metric === "pings" ? 1 : 0,
-      clicks: metric === "clicks" ? 1 : 0,
-      goals: metric === "goals" ? 1 : 0,
+      isBot: scope.isBot,
+      sessions: metric === "sessions" ? amount : 0,
+      pageViews: metric === "pageViews" ? amount : 0,
+      pings: metric === "pings" ? amount : 0,
+      clicks: metric === "clicks" ? amount : 0,
+      goals: metric === "goals" ? amount : 0,
     },
   });
 }
 
-async function ensureSession(sessionId: string, payload: AnyObject = {}) {
-  const startTime = asDate(payload.startTime) ?? asDate(payload.timestamp) ?? new Date();
+function sessionAttributes(payload: AnyObject) {
+  const userAgent = asString(payload.userAgent);
+  const parsed = userAgent ? parseUserAgent(userAgent) : undefined;
+
+  // Prefer what the server derives from the User-Agent; client hints only fill the gaps.
+  return {
+    userAgent,
+    deviceType: parsed?.deviceType ?? asString(payload.deviceType),
+    browser: parsed?.browser ?? asString(payload.browser),
+    browserVersion: parsed?.browserVersion ?? asString(payload.browserVersion),
+    os: parsed?.os ?? asString(payload.os),
+    osVersion: parsed?.osVersion ?? asString(payload.osVersion),
+    // Once flagged, a session stays a bot; later events never clear the marker.
+    isBot: payload.isBot === true || parsed?.isBot ? true : undefined,
+    country: asString(payload.country),
+    region: asString(payload.region),
+    city: asString(payload.city),
+    latitude: asNumber(payload.latitude),
+    longitude: asNumber(payload.longitude),
+  };
+}
+
+async function getVisitorSalt(at: Date) {
+  const day = toUtcDateOnly(at);
+  const cacheKey = day.toISOString();
+  const cached = visitorSalts.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const stored = await prisma.visitorSalt.upsert({
+    where: { date: day },
+    update: {},
+    create: { date: day, salt: randomBytes(32).toString("hex") },
+  });
+
+  // Salts rotate daily: forgetting old ones makes yesterday's hashes impossible to recompute.
+  const yesterday = new Date(day.getTime() - 24 * 60 * 60 * 1000);
+  await prisma.visitorSalt.deleteMany({ where: { date: { lt: yesterday } } });
+  visitorSalts.clear();
+  visitorSalts.set(cacheKey, stored.salt);
+
+  return stored.salt;
+}
+
+async function resolveIpPrivacy(siteId: number, payload: AnyObject) {
+  const rawIp = asString(payload.ipAddress) ?? asString(payload.ip);
+  if (!rawIp || payload.doNotTrack === true) {
+    return { ipAddress: undefined, ipAddressMode: undefined, visitorHash: undefined };
+  }
+
+  const salt = await getVisitorSalt(new Date());
+  const visitorHash = hashVisitor(salt, siteId, rawIp, asString(payload.userAgent));
+
+  if (env.privacyIpMode === "raw") {
+    return { ipAddress: rawIp, ipAddressMode: "raw" as const, visitorHash };
+  }
+
+  if (env.privacyIpMode === "hash") {
+    return { ipAddress: undefined, ipAddressMode: undefined, visitorHash };
+  }
+
+  const ipAddress = truncateIp(rawIp);
+  return { ipAddress, ipAddressMode: ipAddress ? ("truncated" as const) : undefined, visitorHash };
+}
+
+// Events can arrive out of order (beacons, retried batches), so duration and the last ping only grow.
+async function extendSession(sessionId: string, lastPingTime: Date, duration: number, client: DbClient = prisma) {
+  await client.$executeRaw(
+    Prisma.sql`
+      UPDATE sessions
+      SET
+        duration = GREATEST(duration, ${Math.round(duration)}::int),
+        last_ping_time = GREATEST(last_ping_time, ${lastPingTime}),
+        updated_at = NOW()
+      WHERE id = ${sessionId}
+    `,
+  );
+}
+
+// Ping counters are cumulative per page view, so the page view keeps the highest value seen.
+async function applyPingToPageView(data: ReturnType<typeof buildPingData>, client: DbClient = prisma) {
+  const hasEngagement =
+    data.scrollDepth !== undefined || data.engagedSeconds !== undefined || data.visibleSeconds !== undefined;
+  if (!data.pagePath || !hasEngagement) {
+    return;
+  }
+
+  await client.$executeRaw(
+    Prisma.sql`
+      UPDATE page_views
+      SET
+        max_scroll_depth = GREATEST(max_scroll_depth, ${data.scrollDepth ?? null}::int),
+        engaged_seconds = GREATEST(engaged_seconds, ${data.engagedSeconds ?? null}::int),
+        visible_seconds = GREATEST(visible_seconds, ${data.visibleSeconds ?? null}::int)
+      WHERE id = (
+        SELECT p.id
+        FROM page_views p
+        WHERE p.session_id = ${data.sessionId}
+          AND p.path = ${data.pagePath}
+          AND p.timestamp <= ${data.timestamp}
+        ORDER BY p.timestamp DESC, p.id DESC
+        LIMIT 1
+      )
+    `,
+  );
+}
+
+async function ensureSession(
+  siteId: number,
+  sessionId: string,
+  payload: AnyObject = {},
+  client: DbClient = prisma,
+) {
+  const startTime = asEventDate(payload.startTime) ?? asEventDate(payload.timestamp) ?? new Date();
   const duration = asNumber(payload.duration) ?? 0;
-  const lastPingTime = asDate(payload.lastPingTime) ?? asDate(payload.timestamp) ?? startTime;
+  const lastPingTime = asEventDate(payload.lastPingTime) ?? asEventDate(payload.timestamp) ?? startTime;
 
-  const existing = await prisma.session.findUnique({
+  const existing = await client.session.findUnique({
     where: { id: sessionId },
-    select: { id: true },
+    select: { id: true, siteId: true, isBot: true },
   });
 
+  // Session ids come from the client; never let one site's key write into another site's session.
+  if (existing && existing.siteId !== siteId) {
+    throw new Error("Session belongs to a different site");
+  }
+
+  const privacy = await resolveIpPrivacy(siteId, payload);
+
   if (existing) {
-    await prisma.session.update({
+    const attributes = sessionAttributes(payload);
+    if (attributes.isBot && !existing.isBot) {
+      // Batches already run inside a transaction; single events get their own so the move is atomic.
+      await (client === prisma
+        ? prisma.$transaction((tx) => reclassifySessionAsBot(sessionId, tx))
+        : reclassifySessionAsBot(sessionId, client));
+    }
+
+    // The visitor hash is fixed at creation so a session never straddles two salts.
+    await client.session.update({
       where: { id: sessionId },
       data: {
-        lastPingTime,
-        duration,
-        userAgent: asString(payload.userAgent),
-        deviceType: asString(payload.deviceType),
-        browser: asString(payload.browser),
-        os: asString(payload.os),
-        country: asString(payload.country),
-        city: asString(payload.city),
-        ipAddress: asString(payload.ipAddress) ?? asString(payload.ip),
+        ...attributes,
+        ipAddress: privacy.ipAddress,
+        ipAddressMode: privacy.ipAddressMode,
       },
     });
+    await extendSession(sessionId, lastPingTime, duration, client);
 
     return { created: false, startTime };
   }
 
-  await prisma.session.create({
+  // A client-side visitor id survives across days; the salted hash only links same-day visits.
+  const visitorKey =
+    payload.doNotTrack === true
+      ? undefined
+      : (asString(payload.visitorId) ?? asString(payload.visitor_id) ?? privacy.visitorHash);
+  const visitor = visitorKey
+    ? await client.visitor.upsert({
+        where: { siteId_key: { siteId, key: visitorKey } },
+        update: { lastSeenAt: startTime },
+        create: { siteId, key: visitorKey, firstSeenAt: startTime, lastSeenAt: startTime },
+        select: { id: true },
+      })
+    : undefined;
+
+  await client.session.create({
     data: {
       id: sessionId,
+      siteId,
+      visitorId: visitor?.id,
       startTime,
       lastPingTime,
       duration,
-      userAgent: asString(payload.userAgent),
-      deviceType: asString(payload.deviceType),
-      browser: asString(payload.browser),
-      os: asString(payload.os),
-      country: asString(payload.country),
-      city: asString(payload.city),
-      ipAddress: asString(payload.ipAddress) ?? asString(payload.ip),
+      ...sessionAttributes(payload),
+      // Attribution describes how the session started, so later events never overwrite it.
+      ...resolveAttribution(asString(payload.referrer), asString(payload.url)),
+      ...privacy,
     },
   });
 
   return { created: true, startTime };
 }
 
+// Only sessions started through trackSession/trackBatch enter DailyStats.sessions; remember the
+// bot flag they were counted under so erasure can take back exactly what was added.
+async function markSessionCounted(sessionId: string, scope: EventScope, client: DbClient = prisma) {
+  await client.session.update({
+    where: { id: sessionId },
+    data: { countedIsBot: scope.isBot },
+  });
+}
+
+// A session can be flagged part-way through (e.g. by the rate check); its earlier events and
+// DailyStats counts move to the bot bucket so the session is never split across both.
+async function reclassifySessionAsBot(sessionId: string, client: DbClient) {
+  // The locked is_bot guard lets only one of several concurrent requests perform the move.
+  const flipped = await client.$queryRaw<Array<{ siteId: number; countedIsBot: boolean | null; startTime: Date }>>(
+    Prisma.sql`
+      WITH previous AS (
+        SELECT id, counted_is_bot
+        FROM sessions
+        WHERE id = ${sessionId} AND is_bot = false
+        FOR UPDATE
+      )
+      UPDATE sessions s
+      SET
+        is_bot = true,
+        -- Sessions that never entered DailyStats stay uncounted.
+        counted_is_bot = CASE WHEN previous.counted_is_bot IS NULL THEN NULL ELSE true END
+      FROM previous
+      WHERE s.id = previous.id
+      RETURNING s.site_id AS "siteId", previous.counted_is_bot AS "countedIsBot", s.start_time AS "startTime"
+    `,
+  );
+  const session = flipped[0];
+  if (!session) {
+    return;
+  }
+
+  const moves = new Map<string, { metric: DailyMetricField; at: Date; amount: number }>();
+  const move = (metric: DailyMetricField, at: Date) => {
+    const key = `${metric}:${toUtcDateOnly(at).toISOString()}`;
+    const current = moves.get(key);
+    if (current) {
+      current.amount += 1;
+    } else {
+      moves.set(key, { metric, at, amount: 1 });
+    }
+  };
+
+  if (session.countedIsBot === false) {
+    move("sessions", session.startTime);
+  }
+
+  const eventTables: Array<[string, DailyMetricField]> = [
+    ["page_views", "pageViews"],
+    ["clicks", "clicks"],
+    ["pings", "pings"],
+    ["goals", "goals"],
+  ];
+  for (const [table, metric] of eventTables) {
+    const rows = await client.$queryRaw<Array<{ timestamp: Date }>>(
+      Prisma.sql`
+        UPDATE ${Prisma.raw(table)}
+        SET is_bot = true
+        WHERE session_id = ${sessionId} AND is_bot = false
+        RETURNING timestamp
+      `,
+    );
+    rows.forEach((row) => move(metric, row.timestamp));
+  }
+
+  // Custom events are not part of DailyStats.
+  await client.customEvent.updateMany({ where: { sessionId, isBot: false }, data: { isBot: true } });
+
+  for (const { metric, at, amount } of moves.values()) {
+    const column = Prisma.raw(DAILY_METRIC_COLUMNS[metric]);
+    await client.$executeRaw(
+      Prisma.sql`
+        UPDATE daily_stats
+        SET ${column} = GREATEST(${column} - ${amount}, 0), updated_at = NOW()
+        WHERE site_id = ${session.siteId} AND date = ${toUtcDateOnly(at)} AND is_bot = false
+      `,
+    );
+    await incrementDailyMetric({ siteId: session.siteId, isBot: true }, metric, at, amount, client);
+  }
+}
+
+// Lets the tracking endpoint keep every later event of a flagged session in the bot bucket.
+export async function isBotSession(sessionId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { isBot: true },
+  });
+
+  return session?.isBot === true;
+}
+
+function buildPageViewData(siteId: number, sessionId: string, payload: AnyObject) {
+  return {
+    siteId,
+    sessionId,
+    path: asString(payload.path) ?? asString(payload.pagePath) ?? "/",
+    timestamp: asEventDate(payload.timestamp) ?? new Date(),
+    isBot: payload.isBot === true,
+    metadata: eventMetadata(payload),
+  } satisfies Prisma.PageViewCreateManyInput;
+}
+
+function buildPingData(siteId: number, sessionId: string, payload: AnyObject) {
+  return {
+    siteId,
+    sessionId,
+    duration: asNumber(payload.duration) ?? 0,
+    pagePath: asString(payload.pagePath) ?? asString(payload.path),
+    scrollDepth: asPercent(payload.scrollDepth),
+    engagedSeconds: asSeconds(payload.engagedTime) ?? asSeconds(payload.activeTime),
+    visibleSeconds: asSeconds(payload.visibleTime),
+    timestamp: asEventDate(payload.timestamp) ?? new Date(),
+    isBot: payload.isBot === true,
+    metadata: eventMetadata(payload),
+  } satisfies Prisma.PingCreateManyInput;
+}
+
+function buildClickData(siteId: number, sessionId: string, payload: AnyObject) {
+  return {
+    siteId,
+    sessionId,
+    elementTag: asString(payload.elementTag),
+    elementId: asString(payload.elementId),
+    elementClass: asString(payload.elementClass),
+    elementText: asString(payload.elementText),
+    x: asNumber(payload.x) ?? 0,
+    y: asNumber(payload.y) ?? 0,
+    viewportWidth: asDimension(payload.viewportWidth),
+    viewportHeight: asDimension(payload.viewportHeight),
+    pageHeight: asDimension(payload.pageHeight) ?? asDimension(payload.scrollHeight),
+    pagePath: asString(payload.pagePath) ?? asString(payload.path) ?? "/",
+    timestamp: asEventDate(payload.timestamp) ?? new Date(),
+    isBot: payload.isBot === true,
+    metadata: eventMetadata(payload),
+  } satisfies Prisma.ClickCreateManyInput;
+}
+
+function buildGoalData(
+  siteId: number,
+  sessionId: string | undefined,
+  payload: AnyObject,
+  definitions: ActiveGoalDefinition[] = [],
+) {
+  const name = asString(payload.name) ?? asString(payload.goalName) ?? "goal";
+  // Explicit goals pick up the value and currency of an "event" definition with the same name.
+  const definition = definitions.find((candidate) => matchesGoalRule(candidate, { kind: "event", name }));
+
+  return {
+    siteId,
+    sessionId,
+    definitionId: definition?.id,
+    name,
+    value: asNumber(payload.value) ?? definition?.value ?? undefined,
+    currency: asString(payload.currency)?.toUpperCase() ?? definition?.currency ?? undefined,
+    path: asString(payload.path) ?? asString(payload.pagePath),
+    timestamp: asEventDate(payload.timestamp) ?? new Date(),
+    isBot: payload.isBot === true,
+    metadata: eventMetadata(payload),
+  } satisfies Prisma.GoalCreateManyInput;
+}
+
+async function getActiveGoalDefinitions(siteId: number): Promise<ActiveGoalDefinition[]> {
+  const cached = goalDefinitionCache.get(siteId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.definitions;
+  }
+
+  const definitions = await prisma.goalDefinition.findMany({
+    where: { siteId, isActive: true },
+    select: { id: true, name: true, matchType: true, matchValue: true, value: true, currency: true },
+  });
+
+  goalDefinitionCache.set(siteId, { definitions, expiresAt: Date.now() + GOAL_DEFINITION_CACHE_TTL_MS });
+  return definitions;
+}
+
+// Page view and click goals fire at most once per session, so reloading a thank-you page
+// does not count the same conversion (or its revenue) twice.
+async function recordAutomaticGoals(
+  siteId: number,
+  sessionId: string,
+  payload: AnyObject,
+  target: Exclude<GoalMatchTarget, { kind: "event" }>,
+  event: { path: string; timestamp: Date },
+  client: DbClient = prisma,
+) {
+  const matched = (await getActiveGoalDefinitions(siteId)).filter((definition) =>
+    matchesGoalRule(definition, target),
+  );
+  if (matched.length === 0) {
+    return [];
+  }
+
+  const existing = await client.goal.findMany({
+    where: { sessionId, definitionId: { in: matched.map((definition) => definition.id) } },
+    select: { definitionId: true },
+  });
+  const alreadyFired = new Set(existing.map((goal) => goal.definitionId));
+  const fresh = matched.filter((definition) => !alreadyFired.has(definition.id));
+  if (fresh.length === 0) {
+    return [];
+  }
+
+  const goals = fresh.map((definition) => ({
+    siteId,
+    sessionId,
+    definitionId: definition.id,
+    dedupeKey: `${sessionId}:${definition.id}`,
+    name: definition.name,
+    value: definition.value,
+    currency: definition.currency,
+    path: event.path,
+    timestamp: event.timestamp,
+    isBot: payload.isBot === true,
+    metadata: { source: target.kind },
+  }));
+  // Concurrent or retried events can pass the check above together; the unique dedupe key keeps
+  // only one, and only goals actually inserted are counted and published.
+  const inserted = await client.goal.createManyAndReturn({
+    data: goals,
+    skipDuplicates: true,
+    select: { dedupeKey: true },
+  });
+  const insertedKeys = new Set(inserted.map((goal) => goal.dedupeKey));
+  const created = goals.filter((goal) => insertedKeys.has(goal.dedupeKey));
+  if (created.length === 0) {
+    return [];
+  }
+
+  await incrementDailyMetric(eventScope(siteId, payload), "goals", event.timestamp, created.length, client);
+  return created;
+}
+
+function publishPageView(data: ReturnType<typeof buildPageViewData>) {
+  publishLiveEvent({
+    type: "pageview",
+    siteId: data.siteId,
+    sessionId: data.sessionId,
+    path: data.path,
+    timestamp: data.timestamp,
+    isBot: data.isBot,
+  });
+}
+
+function publishClick(data: ReturnType<typeof buildClickData>) {
+  publishLiveEvent({
+    type: "click",
+    siteId: data.siteId,
+    sessionId: data.sessionId,
+    path: data.pagePath,
+    label: data.elementText ?? data.elementId,
+    timestamp: data.timestamp,
+    isBot: data.isBot,
+  });
+}
+
+function publishGoal(data: {
+  siteId: number;
+  sessionId?: string;
+  name: string;
+  value?: number | null;
+  path?: string;
+  timestamp: Date;
+  isBot: boolean;
+}) {
+  publishLiveEvent({
+    type: "goal",
+    siteId: data.siteId,
+    sessionId: data.sessionId,
+    name: data.name,
+    value: data.value,
+    path: data.path,
+    timestamp: data.timestamp,
+    isBot: data.isBot,
+  });
+}
+
+function buildCustomEventData(siteId: number, sessionId: string, payload: AnyObject, event: ParsedCustomEvent) {
+  return {
+    siteId,
+    sessionId,
+    name: event.name,
+    properties: event.properties,
+    pagePath: asString(payload.path) ?? asString(payload.pagePath),
+    timestamp: asEventDate(payload.timestamp) ?? new Date(),
+    isBot: payload.isBot === true,
+  } satisfies Prisma.CustomEventCreateManyInput;
+}
+
 export async function initDb() {
   await prisma.$connect();
 
   if (env.adminEmail && env.adminPassword) {
-    await upsertAdminUser(env.adminEmail, env.adminPassword);
+    await ensureBootstrapAdmin(env.adminEmail, env.adminPassword);
   }
 }
 
-export async function trackSession(payload: AnyObject) {
+export async function trackSession(siteId: number, payload: AnyObject) {
   const sessionId = resolveSessionId(payload);
-  const ensured = await ensureSession(sessionId, payload);
+  const ensured = await ensureSession(siteId, sessionId, payload);
 
   if (ensured.created) {
-    await incrementDailyMetric("sessions", ensured.startTime);
+    const scope = eventScope(siteId, payload);
+    await incrementDailyMetric(scope, "sessions", ensured.startTime);
+    await markSessionCounted(sessionId, scope);
   }
 
   return { sessionId };
 }
 
-export async function trackPageView(payload: AnyObject) {
+export async function trackPageView(siteId: number, payload: AnyObject) {
   const sessionId = resolveSessionId(payload);
-  await ensureSession(sessionId, payload);
-  const timestamp = asDate(payload.timestamp) ?? new Date();
+  await ensureSession(siteId, sessionId, payload);
 
-  await prisma.pageView.create({
-    data: {
-      sessionId,
-      path: asString(payload.path) ?? asString(payload.pagePath) ?? "/",
-      timestamp,
-      metadata: toJsonValue(payload),
-    },
-  });
+  const data = buildPageViewData(siteId, sessionId, payload);
+  await prisma.pageView.create({ data });
 
-  await incrementDailyMetric("pageViews", timestamp);
+  await incrementDailyMetric(eventScope(siteId, payload), "pageViews", data.timestamp);
+  const goals = await recordAutomaticGoals(siteId, sessionId, payload, { kind: "pageview", path: data.path }, data);
+
+  publishPageView(data);
+  goals.forEach(publishGoal);
 }
 
-export async function trackPing(payload: AnyObject) {
+export async function trackPing(siteId: number, payload: AnyObject) {
   const sessionId = resolveSessionId(payload);
-  await ensureSession(sessionId, payload);
-
-  const timestamp = asDate(payload.timestamp) ?? new Date();
-  const duration = asNumber(payload.duration) ?? 0;
+  await ensureSession(siteId, sessionId, payload);
 
-  await prisma.ping.create({
-    data: {
-      sessionId,
-      duration,
-      pagePath: asString(payload.pagePath) ?? asString(payload.path),
-      timestamp,
-      metadata: toJsonValue(payload),
-    },
-  });
+  const data = buildPingData(siteId, sessionId, payload);
+  await prisma.ping.create({ data });
 
-  await prisma.session.update({
-    where: { id: sessionId },
-    data: {
-      lastPingTime: timestamp,
-      duration,
-    },
-  });
+  await extendSession(sessionId, data.timestamp, data.duration);
+  await applyPingToPageView(data);
 
-  await incrementDailyMetric("pings", timestamp);
+  await incrementDailyMetric(eventScope(siteId, payload), "pings", data.timestamp);
 }
 
-export async function trackClick(payload: AnyObject) {
+export async function trackClick(siteId: number, payload: AnyObject) {
   const sessionId = resolveSessionId(payload);
-  await ensureSession(sessionId, payload);
-  const timestamp = asDate(payload.timestamp) ?? new Date();
+  await ensureSession(siteId, sessionId, payload);
 
-  await prisma.click.create({
-    data: {
-      sessionId,
-      elementTag: asString(payload.elementTag),
-      elementId: asString(payload.elementId),
-      elementClass: asString(payload.elementClass),
-      elementText: asString(payload.elementText),
-      x: asNumber(payload.x) ?? 0,
-      y: asNumber(payload.y) ?? 0,
-      pagePath: asString(payload.pagePath) ?? asString(payload.path) ?? "/",
-      timestamp,
-      metadata: toJsonValue(payload),
-    },
+  const data = buildClickData(siteId, sessionId, payload);
+  await prisma.click.create({ data });
+
+  await incrementDailyMetric(eventScope(siteId, payload), "clicks", data.timestamp);
+  const goals = await recordAutomaticGoals(siteId, sessionId, payload, { kind: "click", ...data }, {
+    path: data.pagePath,
+    timestamp: data.timestamp,
   });
 
-  await incrementDailyMetric("clicks", timestamp);
+  publishClick(data);
+  goals.forEach(publishGoal);
+}
+
+export async function trackCustomEvent(siteId: number, payload: AnyObject) {
+  const event = parseCustomEvent(payload);
+  if ("error" in event) {
+    return event;
+  }
+
+  const sessionId = resolveSessionId(payload);
+  await ensureSession(siteId, sessionId, payload);
+
+  await prisma.customEvent.create({ data: buildCustomEventData(siteId, sessionId, payload, event) });
+  return { sessionId };
 }
 
-export async function trackGoal(payload: AnyObject) {
+export async function trackGoal(siteId: number, payload: AnyObject) {
   const maybeSessionId = asString(payload.sessionId) ?? asString(payload.session_id);
 
   if (maybeSessionId) {
-    await ensureSession(maybeSessionId, payload);
+    await ensureSession(siteId, maybeSessionId, payload);
   }
 
-  const timestamp = asDate(payload.timestamp) ?? new Date();
-  await prisma.goal.create({
-    data: {
-      sessionId: maybeSessionId,
-      name: asString(payload.name) ?? asString(payload.goalName) ?? "goal",
-      value: asNumber(payload.value),
-      path: asString(payload.path) ?? asString(payload.pagePath),
-      timestamp,
-      metadata: toJsonValue(payload),
-    },
+  const data = buildGoalData(siteId, maybeSessionId, payload, await getActiveGoalDefinitions(siteId));
+  await prisma.goal.create({ data });
+
+  await incrementDailyMetric(eventScope(siteId, payload), "goals", data.timestamp);
+  publishGoal(data);
+}
+
+export async function trackBatch(siteId: number, payload: AnyObject, events: unknown[]) {
+  const { events: _events, ...base } = payload;
+  const firstEvent = events.find(isObject);
+  const sessionId = resolveSessionId({ ...(firstEvent ?? {}), ...base });
+
+  const results: TrackBatchResult[] = [];
+  const pageViews: ReturnType<typeof buildPageViewData>[] = [];
+  const pings: ReturnType<typeof buildPingData>[] = [];
+  const clicks: ReturnType<typeof buildClickData>[] = [];
+  const goals: ReturnType<typeof buildGoalData>[] = [];
+  const customEvents: ReturnType<typeof buildCustomEventData>[] = [];
+  const automaticGoals: Awaited<ReturnType<typeof recordAutomaticGoals>> = [];
+  const goalDefinitions = await getActiveGoalDefinitions(siteId);
+  const dailyCounts = new Map<string, { metric: DailyMetricField; at: Date; amount: number }>();
+  let sessionPayload: AnyObject = base;
+
+  const countDaily = (metric: DailyMetricField, at: Date) => {
+    const key = `${metric}:${toUtcDateOnly(at).toISOString()}`;
+    const current = dailyCounts.get(key);
+    if (current) {
+      current.amount += 1;
+    } else {
+      dailyCounts.set(key, { metric, at, amount: 1 });
+    }
+  };
+
+  events.forEach((event, index) => {
+    if (!isObject(event)) {
+      results.push({ index, status: "rejected", error: "Event must be an object" });
+      return;
+    }
+
+    const eventSessionId = asString(event.sessionId) ?? asString(event.session_id);
+    if (eventSessionId && eventSessionId !== sessionId) {
+      results.push({ index, status: "rejected", error: "Event belongs to a different session" });
+      return;
+    }
+
+    const type = asString(event.type);
+    const eventPayload = { ...base, ...event, sessionId, isBot: base.isBot };
+
+    if (type === "session") {
+      sessionPayload = { ...sessionPayload, ...eventPayload };
+    } else if (type === "view") {
+      const data = buildPageViewData(siteId, sessionId, eventPayload);
+      pageViews.push(data);
+      countDaily("pageViews", data.timestamp);
+    } else if (type === "ping") {
+      const data = buildPingData(siteId, sessionId, eventPayload);
+      pings.push(data);
+      countDaily("pings", data.timestamp);
+    } else if (type === "click") {
+      const data = buildClickData(siteId, sessionId, eventPayload);
+      clicks.push(data);
+      countDaily("clicks", data.timestamp);
+    } else if (type === "goal") {
+      const data = buildGoalData(siteId, sessionId, eventPayload, goalDefinitions);
+      goals.push(data);
+      countDaily("goals", data.timestamp);
+    } else if (type === "event") {
+      const parsed = parseCustomEvent(event);
+      if ("error" in parsed) {
+        results.push({ index, status: "rejected", error: parsed.error });
+        return;
+      }
+      customEvents.push(buildCustomEventData(siteId, sessionId, eventPayload, parsed));
+    } else {
+      results.push({ index, status: "rejected", error: "Unknown event type" });
+      return;
+    }
+
+    results.push({ index, status: "accepted" });
+  });
+
+  await prisma.$transaction(async (tx) => {
+    const ensured = await ensureSession(siteId, sessionId, sessionPayload, tx);
+    if (ensured.created) {
+      countDaily("sessions", ensured.startTime);
+      await markSessionCounted(sessionId, eventScope(siteId, base), tx);
+    }
+
+    if (pageViews.length > 0) {
+      await tx.pageView.createMany({ data: pageViews });
+    }
+
+    if (pings.length > 0) {
+      await tx.ping.createMany({ data: pings });
+
+      const lastPing = pings.reduce((latest, ping) => (ping.timestamp > latest.timestamp ? ping : latest));
+      const longest = Math.max(...pings.map((ping) => ping.duration));
+      await extendSession(sessionId, lastPing.timestamp, longest, tx);
+
+      for (const ping of pings) {
+        await applyPingToPageView(ping, tx);
+      }
+    }
+
+    if (clicks.length > 0) {
+      await tx.click.createMany({ data: clicks });
+    }
+
+    if (goals.length > 0) {
+      await tx.goal.createMany({ data: goals });
+    }
+
+    if (customEvents.length > 0) {
+      await tx.customEvent.createMany({ data: customEvents });
+    }
+
+    for (const view of pageViews) {
+      automaticGoals.push(
+        ...(await recordAutomaticGoals(siteId, sessionId, base, { kind: "pageview", path: view.path }, view, tx)),
+      );
+    }
+
+    for (const click of clicks) {
+      automaticGoals.push(
+        ...(await recordAutomaticGoals(
+          siteId,
+          sessionId,
+          base,
+          { kind: "click", ...click },
+          { path: click.pagePath, timestamp: click.timestamp },
+          tx,
+        )),
+      );
+    }
+
+    for (const { metric, at, amount } of dailyCounts.values()) {
+      await incrementDailyMetric(eventScope(siteId, base), metric, at, amount, tx);
+    }
   });
 
-  await incrementDailyMetric("goals", timestamp);
+  // Only announce events once the transaction has committed.
+  pageViews.forEach(publishPageView);
+  clicks.forEach(publishClick);
+  goals.forEach(publishGoal);
+  automaticGoals.forEach(publishGoal);
+
+  return { sessionId, results };
 }
 
 export async function getStats() {
@@ -329,7 +1099,7 @@ export async function getStats() {
 export async function getSessionsCount(rangeInput: StatsRangeInput = {}) {
   const range = resolveDateRange(rangeInput);
   const result = await prisma.dailyStats.aggregate({
-    where: toDailyWhere(range),
+    where: toDailyWhere(range, rangeInput),
     _sum: { sessions: true },
   });
 
@@ -339,7 +1109,7 @@ export async function getSessionsCount(rangeInput: StatsRangeInput = {}) {
 export async function getPageViewsCount(rangeInput: StatsRangeInput = {}) {
   const range = resolveDateRange(rangeInput);
   const result = await prisma.dailyStats.aggregate({
-    where: toDailyWhere(range),
+    where: toDailyWhere(range, rangeInput),
     _sum: { pageViews: true },
   });
 
@@ -349,7 +1119,7 @@ export async function getPageViewsCount(rangeInput: StatsRangeInput = {}) {
 export async function getPingsCount(rangeInput: StatsRangeInput = {}) {
   const range = resolveDateRange(rangeInput);
   const result = await prisma.dailyStats.aggregate({
-    where: toDailyWhere(range),
+    where: toDailyWhere(range, rangeInput),
     _sum: { pings: true },
   });
 
@@ -359,7 +1129,7 @@ export async function getPingsCount(rangeInput: StatsRangeInput = {}) {
 export async function getClicksCount(rangeInput: StatsRangeInput = {}) {
   const range = resolveDateRange(rangeInput);
   const result = await prisma.dailyStats.aggregate({
-    where: toDailyWhere(range),
+    where: toDailyWhere(range, rangeInput),
     _sum: { clicks: true },
   });
 
@@ -369,7 +1139,7 @@ export async function getClicksCount(rangeInput: StatsRangeInput = {}) {
 export async function getGoalsCount(rangeInput: StatsRangeInput = {}) {
   const range = resolveDateRange(rangeInput);
   const result = await prisma.dailyStats.aggregate({
-    where: toDailyWhere(range),
+    where: toDailyWhere(range, rangeInput),
     _sum: { goals: true },
   });
 
@@ -397,27 +1167,75 @@ export async function getStatsByRange(rangeInput: StatsRangeInput = {}) {
   };
 }
 
-export async function getReportOverview(rangeInput: StatsRangeInput = {}) {
-  const range = resolveDateRange(rangeInput);
-  const [sessions, pageViews, pings, clicks, goals, durationAgg] = await Promise.all([
-    getSessionsCount(rangeInput),
-    getPageViewsCount(rangeInput),
-    getPingsCount(rangeInput),
-    getClicksCount(rangeInput),
-    getGoalsCount(rangeInput),
-    prisma.session.aggregate({
-      where: range
-        ? {
-            startTime: {
-              gte: range.gte,
-              lte: range.lte,
-            },
-          }
-        : undefined,
-      _avg: { duration: true },
-      _max: { duration: true },
-    }),
-  ]);
+// A visitor counts as returning on any day after the day they were first seen.
+async function getVisitorCounts(rangeInput: StatsRangeInput = {}) {
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  const rows = await prisma.$queryRaw<Array<{ uniqueVisitors: number; returningVisitors: number }>>(
+    Prisma.sql`
+      SELECT
+        COUNT(DISTINCT s.visitor_id)::int AS "uniqueVisitors",
+        COUNT(DISTINCT s.visitor_id) FILTER (
+          WHERE v.first_seen_at::date < s.start_time::date
+        )::int AS "returningVisitors"
+      FROM sessions s
+      JOIN visitors v ON v.id = s.visitor_id
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+    `,
+  );
+
+  return {
+    uniqueVisitors: Number(rows[0]?.uniqueVisitors ?? 0),
+    returningVisitors: Number(rows[0]?.returningVisitors ?? 0),
+  };
+}
+
+async function getDailyVisitorCounts(rangeInput: StatsRangeInput = {}) {
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  return prisma.$queryRaw<Array<{ date: Date; uniqueVisitors: number; returningVisitors: number }>>(
+    Prisma.sql`
+      SELECT
+        s.start_time::date AS date,
+        COUNT(DISTINCT s.visitor_id)::int AS "uniqueVisitors",
+        COUNT(DISTINCT s.visitor_id) FILTER (
+          WHERE v.first_seen_at::date < s.start_time::date
+        )::int AS "returningVisitors"
+      FROM sessions s
+      JOIN visitors v ON v.id = s.visitor_id
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+      GROUP BY 1
+    `,
+  );
+}
+
+export async function getReportOverview(rangeInput: StatsRangeInput = {}) {
+  const range = resolveDateRange(rangeInput);
+  const [sessions, pageViews, pings, clicks, goals, visitors, bounce, durationAgg] = await Promise.all([
+    getSessionsCount(rangeInput),
+    getPageViewsCount(rangeInput),
+    getPingsCount(rangeInput),
+    getClicksCount(rangeInput),
+    getGoalsCount(rangeInput),
+    getVisitorCounts(rangeInput),
+    getBounceTotals(rangeInput),
+    prisma.session.aggregate({
+      where: {
+        siteId: rangeInput.siteId,
+        isBot: rangeInput.includeBots ? undefined : false,
+        startTime: range
+          ? {
+              gte: range.gte,
+              lte: range.lte,
+            }
+          : undefined,
+      },
+      _avg: { duration: true },
+      _max: { duration: true },
+    }),
+  ]);
 
   return {
     totals: {
@@ -426,12 +1244,16 @@ export async function getReportOverview(rangeInput: StatsRangeInput = {}) {
       pings,
       clicks,
       goals,
+      uniqueVisitors: visitors.uniqueVisitors,
+      returningVisitors: visitors.returningVisitors,
     },
     engagement: {
       clickThroughRate: pageViews > 0 ? Number((clicks / pageViews).toFixed(4)) : 0,
       goalsPerSession: sessions > 0 ? Number((goals / sessions).toFixed(4)) : 0,
       avgSessionDuration: Math.round(durationAgg._avg.duration ?? 0),
       maxSessionDuration: durationAgg._max.duration ?? 0,
+      bounceRate: bounce.bounceRate,
+      avgTimeOnPage: bounce.avgTimeOnPage,
     },
   };
 }
@@ -440,11 +1262,12 @@ export async function getReportTimeseries(
   rangeInput: StatsRangeInput = {},
   metric?: ReportMetric,
 ) {
-  const rows = await prisma.dailyStats.findMany({
-    where: toDailyWhere(resolveDateRange(rangeInput)),
+  // Several sites (and bot/human rows) can share a day, so sum them per date.
+  const grouped = await prisma.dailyStats.groupBy({
+    by: ["date"],
+    where: toDailyWhere(resolveDateRange(rangeInput), rangeInput),
     orderBy: { date: "asc" },
-    select: {
-      date: true,
+    _sum: {
       sessions: true,
       pageViews: true,
       pings: true,
@@ -453,6 +1276,26 @@ export async function getReportTimeseries(
     },
   });
 
+  const dailyVisitors = await getDailyVisitorCounts(rangeInput);
+  const visitorsByDate = new Map(
+    dailyVisitors.map((row) => [row.date.toISOString().slice(0, 10), row]),
+  );
+
+  const rows = grouped.map((row) => {
+    const visitors = visitorsByDate.get(row.date.toISOString().slice(0, 10));
+
+    return {
+      date: row.date,
+      sessions: row._sum.sessions ?? 0,
+      pageViews: row._sum.pageViews ?? 0,
+      pings: row._sum.pings ?? 0,
+      clicks: row._sum.clicks ?? 0,
+      goals: row._sum.goals ?? 0,
+      uniqueVisitors: Number(visitors?.uniqueVisitors ?? 0),
+      returningVisitors: Number(visitors?.returningVisitors ?? 0),
+    };
+  });
+
   if (metric) {
     return rows.map((row) => ({
       date: row.date.toISOString().slice(0, 10),
@@ -467,13 +1310,82 @@ export async function getReportTimeseries(
     pings: row.pings,
     clicks: row.clicks,
     goals: row.goals,
+    uniqueVisitors: row.uniqueVisitors,
+    returningVisitors: row.returningVisitors,
   }));
 }
 
-export async function getReportTopLinks(rangeInput: StatsRangeInput = {}, limit = 20) {
+export async function getReportVisitorTypes(rangeInput: StatsRangeInput = {}) {
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  const rows = await prisma.$queryRaw<Array<{ type: string; visitors: number; sessions: number }>>(
+    Prisma.sql`
+      SELECT
+        CASE
+          WHEN v.id IS NULL THEN 'unknown'
+          WHEN v.first_seen_at::date < s.start_time::date THEN 'returning'
+          ELSE 'new'
+        END AS type,
+        COUNT(DISTINCT s.visitor_id)::int AS visitors,
+        COUNT(*)::int AS sessions
+      FROM sessions s
+      LEFT JOIN visitors v ON v.id = s.visitor_id
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+      GROUP BY 1
+      ORDER BY sessions DESC
+    `,
+  );
+
+  return rows.map((row) => ({
+    type: row.type,
+    visitors: Number(row.visitors),
+    sessions: Number(row.sessions),
+  }));
+}
+
+function clickCategoryRuleSql(rule: ClickCategoryRule) {
+  if (rule.type === "kind") {
+    return Prisma.sql`COALESCE(c.metadata->>'kind', '') = ${rule.value}`;
+  }
+
+  if (rule.type === "path") {
+    return Prisma.sql`c.page_path LIKE ${pathPatternToLike(rule.value)}`;
+  }
+
+  const selector = parseSimpleSelector(rule.value);
+  if (!selector) {
+    return Prisma.sql`FALSE`;
+  }
+
+  const conditions = [
+    selector.tag ? Prisma.sql`LOWER(c.element_tag) = ${selector.tag}` : Prisma.sql`TRUE`,
+    selector.id ? Prisma.sql`c.element_id = ${selector.id}` : Prisma.sql`TRUE`,
+    ...selector.classes.map(
+      (className) => Prisma.sql`${className} = ANY(string_to_array(COALESCE(c.element_class, ''), ' '))`,
+    ),
+  ];
+
+  return Prisma.sql`(${Prisma.join(conditions, " AND ")})`;
+}
+
+// A click belongs to the category when any of its rules matches.
+function clickCategoryMatchSql(rules: ClickCategoryRule[]) {
+  return Prisma.sql`(${Prisma.join(rules.map(clickCategoryRuleSql), " OR ")})`;
+}
+
+export async function getReportClickCategory(
+  rules: ClickCategoryRule[],
+  rangeInput: StatsRangeInput = {},
+  limit = 20,
+) {
   const safeLimit = Math.max(1, Math.min(limit, 100));
   const range = resolveDateRangeOrAll(rangeInput);
 
+  if (rules.length === 0) {
+    return [];
+  }
+
   const rows = await prisma.$queryRaw<
     Array<{ label: string | null; url: string | null; clicks: number }>
   >(
@@ -484,7 +1396,8 @@ export async function getReportTopLinks(rangeInput: StatsRangeInput = {}, limit
         COUNT(*)::int AS clicks
       FROM clicks c
       WHERE c.timestamp >= ${range.gte} AND c.timestamp <= ${range.lte}
-        AND COALESCE(c.metadata->>'kind', '') IN ('social', 'link-card')
+        ${scopeFilterSql("c", rangeInput)}
+        AND ${clickCategoryMatchSql(rules)}
       GROUP BY 1, 2
       ORDER BY clicks DESC
       LIMIT ${safeLimit}
@@ -498,10 +1411,27 @@ export async function getReportTopLinks(rangeInput: StatsRangeInput = {}, limit
   }));
 }
 
+// The shared "links" and "setup" categories are seeded by migration and cannot be renamed or deleted.
+async function getBuiltInClickCategoryRules(name: string, siteId?: number) {
+  const category = await findClickCategory(name, siteId);
+  return (category?.rules ?? []) as ClickCategoryRule[];
+}
+
+export async function getReportTopLinks(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const rules = await getBuiltInClickCategoryRules("links", rangeInput.siteId);
+  return getReportClickCategory(rules, rangeInput, limit);
+}
+
+// Keeps its original shape: one row per item, without the URL the generic category report adds.
 export async function getReportTopSetupItems(rangeInput: StatsRangeInput = {}, limit = 20) {
   const safeLimit = Math.max(1, Math.min(limit, 100));
   const range = resolveDateRangeOrAll(rangeInput);
 
+  const rules = await getBuiltInClickCategoryRules("setup", rangeInput.siteId);
+  if (rules.length === 0) {
+    return [];
+  }
+
   const rows = await prisma.$queryRaw<Array<{ item: string | null; clicks: number }>>(
     Prisma.sql`
       SELECT
@@ -509,7 +1439,8 @@ export async function getReportTopSetupItems(rangeInput: StatsRangeInput = {}, l
         COUNT(*)::int AS clicks
       FROM clicks c
       WHERE c.timestamp >= ${range.gte} AND c.timestamp <= ${range.lte}
-        AND COALESCE(c.metadata->>'kind', '') = 'setup'
+        ${scopeFilterSql("c", rangeInput)}
+        AND ${clickCategoryMatchSql(rules)}
       GROUP BY 1
       ORDER BY clicks DESC
       LIMIT ${safeLimit}
@@ -532,6 +1463,7 @@ export async function getReportBaseAccesses(rangeInput: StatsRangeInput = {}, ba
       WHERE p.timestamp >= ${range.gte}
         AND p.timestamp <= ${range.lte}
         AND p.path = ${basePath}
+        ${scopeFilterSql("p", rangeInput)}
     `,
   );
 
@@ -547,37 +1479,473 @@ export async function getReportButtonClicks(rangeInput: StatsRangeInput = {}) {
       FROM clicks c
       WHERE c.timestamp >= ${range.gte}
         AND c.timestamp <= ${range.lte}
+        ${scopeFilterSql("c", rangeInput)}
     `,
   );
 
   return Number(rows[0]?.clicks ?? 0);
 }
 
+// Page views of the sessions started in range, in visit order. Time on page runs until the next
+// page view or, for the last page, until the last ping sent from it. The CTE is named "pages".
+function orderedPagesSql(rangeInput: StatsRangeInput) {
+  const range = resolveDateRangeOrAll(rangeInput);
+  const threshold = Math.max(0, env.bounceEngagementSeconds);
+
+  return Prisma.sql`
+    WITH ordered AS (
+      SELECT
+        p.session_id,
+        p.path,
+        p.timestamp,
+        ROW_NUMBER() OVER w AS page_index,
+        COUNT(*) OVER (PARTITION BY p.session_id) AS page_count,
+        LEAD(p.timestamp) OVER w AS next_at
+      FROM sessions s
+      JOIN page_views p ON p.session_id = s.id
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+      WINDOW w AS (PARTITION BY p.session_id ORDER BY p.timestamp, p.id)
+    ),
+    timed AS (
+      SELECT
+        o.*,
+        EXTRACT(EPOCH FROM COALESCE(
+          o.next_at,
+          (SELECT MAX(pi.timestamp) FROM pings pi WHERE pi.session_id = o.session_id AND pi.timestamp >= o.timestamp)
+        ) - o.timestamp) AS seconds_on_page
+      FROM ordered o
+    ),
+    pages AS (
+      SELECT
+        t.*,
+        (t.page_count = 1 AND (${threshold}::int = 0 OR COALESCE(t.seconds_on_page, 0) < ${threshold}::int)) AS bounced
+      FROM timed t
+    )
+  `;
+}
+
+export async function getReportEntryPages(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
+
+  const rows = await prisma.$queryRaw<Array<{ path: string; entries: number; bounces: number }>>(
+    Prisma.sql`
+      ${orderedPagesSql(rangeInput)}
+      SELECT
+        path,
+        COUNT(*)::int AS entries,
+        COUNT(*) FILTER (WHERE bounced)::int AS bounces
+      FROM pages
+      WHERE page_index = 1
+      GROUP BY path
+      ORDER BY entries DESC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  return rows.map((row) => {
+    const entries = Number(row.entries);
+    const bounces = Number(row.bounces);
+
+    return {
+      path: row.path,
+      entries,
+      bounces,
+      bounceRate: entries > 0 ? Number((bounces / entries).toFixed(4)) : 0,
+    };
+  });
+}
+
+export async function getReportExitPages(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
+
+  const rows = await prisma.$queryRaw<Array<{ path: string; exits: number; views: number }>>(
+    Prisma.sql`
+      ${orderedPagesSql(rangeInput)}
+      SELECT
+        path,
+        COUNT(*) FILTER (WHERE page_index = page_count)::int AS exits,
+        COUNT(*)::int AS views
+      FROM pages
+      GROUP BY path
+      HAVING COUNT(*) FILTER (WHERE page_index = page_count) > 0
+      ORDER BY exits DESC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  return rows.map((row) => {
+    const exits = Number(row.exits);
+    const views = Number(row.views);
+
+    return {
+      path: row.path,
+      exits,
+      views,
+      exitRate: views > 0 ? Number((exits / views).toFixed(4)) : 0,
+    };
+  });
+}
+
+// Consecutive views of the same path (reloads) collapse into one step so flows have no self-loops.
+function pathStepsSql(rangeInput: StatsRangeInput) {
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  return Prisma.sql`
+    WITH ordered AS (
+      SELECT
+        p.session_id,
+        p.path,
+        p.timestamp,
+        p.id,
+        LAG(p.path) OVER (PARTITION BY p.session_id ORDER BY p.timestamp, p.id) AS repeated_path
+      FROM sessions s
+      JOIN page_views p ON p.session_id = s.id
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+    ),
+    steps AS (
+      SELECT
+        session_id,
+        path,
+        ROW_NUMBER() OVER w AS step,
+        LAG(path) OVER w AS previous_path,
+        LEAD(path) OVER w AS next_path
+      FROM ordered
+      WHERE repeated_path IS DISTINCT FROM path
+      WINDOW w AS (PARTITION BY session_id ORDER BY timestamp, id)
+    )
+  `;
+}
+
+async function getPathNeighbours(
+  rangeInput: StatsRangeInput,
+  path: string,
+  direction: "next" | "previous",
+  limit: number,
+) {
+  const column = Prisma.raw(direction === "next" ? "next_path" : "previous_path");
+
+  // A session can pass through the path more than once, so transitions (steps) and distinct
+  // sessions are counted separately; the empty grouping set is the total over every neighbour.
+  const rows = await prisma.$queryRaw<
+    Array<{ path: string | null; isTotal: boolean; transitions: number; sessions: number }>
+  >(
+    Prisma.sql`
+      ${pathStepsSql(rangeInput)}
+      SELECT
+        ${column} AS path,
+        GROUPING(${column}) = 1 AS "isTotal",
+        COUNT(*)::int AS transitions,
+        COUNT(DISTINCT session_id)::int AS sessions
+      FROM steps
+      WHERE path = ${path}
+      GROUP BY GROUPING SETS ((${column}), ())
+      ORDER BY sessions DESC, transitions DESC
+    `,
+  );
+
+  // A missing neighbour means the session started (previous) or ended (next) on this path.
+  const total = rows.find((row) => row.isTotal);
+  const boundary = rows.find((row) => !row.isTotal && row.path === null);
+  return {
+    transitions: Number(total?.transitions ?? 0),
+    sessions: Number(total?.sessions ?? 0),
+    boundary: Number(boundary?.sessions ?? 0),
+    rows: rows
+      .filter((row): row is typeof row & { path: string } => !row.isTotal && row.path !== null)
+      .slice(0, limit)
+      .map((row) => ({ path: row.path, sessions: Number(row.sessions), transitions: Number(row.transitions) })),
+  };
+}
+
+async function getPathTransitions(rangeInput: StatsRangeInput, path: string, limit: number) {
+  const [next, previous] = await Promise.all([
+    getPathNeighbours(rangeInput, path, "next", limit),
+    getPathNeighbours(rangeInput, path, "previous", limit),
+  ]);
+
+  return {
+    path,
+    steps: next.transitions,
+    sessions: next.sessions,
+    entrances: previous.boundary,
+    exits: next.boundary,
+    next: next.rows,
+    previous: previous.rows,
+  };
+}
+
+export async function getReportPaths(
+  rangeInput: StatsRangeInput = {},
+  options: { path?: string; length?: number; limit?: number } = {},
+) {
+  const safeLimit = Math.max(1, Math.min(options.limit ?? 20, 100));
+  const length = Math.max(2, Math.min(options.length ?? 3, 10));
+  const path = options.path;
+
+  // Paths start at the session's entry page, or at its first view of the requested path. Sessions
+  // that end before reaching the requested length are left out rather than mixed in as shorter paths.
+  const sequences = await prisma.$queryRaw<Array<{ pages: string[]; sessions: number }>>(
+    Prisma.sql`
+      ${pathStepsSql(rangeInput)},
+      anchors AS (
+        SELECT session_id, MIN(step) AS start_step
+        FROM steps
+        ${path ? Prisma.sql`WHERE path = ${path}` : Prisma.empty}
+        GROUP BY session_id
+      ),
+      sequences AS (
+        SELECT st.session_id, ARRAY_AGG(st.path ORDER BY st.step) AS pages
+        FROM steps st
+        JOIN anchors a ON a.session_id = st.session_id
+        WHERE st.step >= a.start_step AND st.step < a.start_step + ${length}
+        GROUP BY st.session_id
+      )
+      SELECT pages, COUNT(*)::int AS sessions
+      FROM sequences
+      WHERE array_length(pages, 1) = ${length}
+      GROUP BY pages
+      ORDER BY sessions DESC, pages ASC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  const paths = sequences.map((row) => ({ pages: row.pages, sessions: Number(row.sessions) }));
+
+  // Sankey links between consecutive steps of the top paths; nodes are (step, path) pairs.
+  const links = new Map<string, { step: number; source: string; target: string; sessions: number }>();
+  for (const row of paths) {
+    for (let index = 0; index < row.pages.length - 1; index += 1) {
+      const key = JSON.stringify([index, row.pages[index], row.pages[index + 1]]);
+      const link = links.get(key) ?? {
+        step: index + 1,
+        source: row.pages[index],
+        target: row.pages[index + 1],
+        sessions: 0,
+      };
+      link.sessions += row.sessions;
+      links.set(key, link);
+    }
+  }
+
+  return {
+    length,
+    transitions: path ? await getPathTransitions(rangeInput, path, safeLimit) : null,
+    paths,
+    links: [...links.values()].sort((a, b) => a.step - b.step || b.sessions - a.sessions),
+  };
+}
+
+async function getBounceTotals(rangeInput: StatsRangeInput) {
+  const rows = await prisma.$queryRaw<Array<{ entries: number; bounces: number; avgTimeOnPage: number | null }>>(
+    Prisma.sql`
+      ${orderedPagesSql(rangeInput)}
+      SELECT
+        COUNT(*) FILTER (WHERE page_index = 1)::int AS entries,
+        COUNT(*) FILTER (WHERE page_index = 1 AND bounced)::int AS bounces,
+        ROUND(AVG(seconds_on_page))::int AS "avgTimeOnPage"
+      FROM pages
+    `,
+  );
+
+  const entries = Number(rows[0]?.entries ?? 0);
+  const bounces = Number(rows[0]?.bounces ?? 0);
+
+  return {
+    bounceRate: entries > 0 ? Number((bounces / entries).toFixed(4)) : 0,
+    avgTimeOnPage: Number(rows[0]?.avgTimeOnPage ?? 0),
+  };
+}
+
 export async function getReportPages(rangeInput: StatsRangeInput = {}, limit = 20) {
   const safeLimit = Math.max(1, Math.min(limit, 100));
   const range = resolveDateRangeOrAll(rangeInput);
 
   const rows = await prisma.$queryRaw<
-    Array<{ path: string; views: number; sessions: number }>
+    Array<{
+      path: string;
+      views: number;
+      sessions: number;
+      avgScrollDepth: number | null;
+      avgEngagedTime: number | null;
+    }>
   >(
     Prisma.sql`
       SELECT
         p.path AS path,
         COUNT(*)::int AS views,
-        COUNT(DISTINCT p.session_id)::int AS sessions
+        COUNT(DISTINCT p.session_id)::int AS sessions,
+        ROUND(AVG(p.max_scroll_depth))::int AS "avgScrollDepth",
+        ROUND(AVG(p.engaged_seconds))::int AS "avgEngagedTime"
       FROM page_views p
       WHERE p.timestamp >= ${range.gte} AND p.timestamp <= ${range.lte}
+        ${scopeFilterSql("p", rangeInput)}
       GROUP BY p.path
       ORDER BY views DESC
       LIMIT ${safeLimit}
     `,
   );
 
-  return rows.map((row) => ({
-    path: row.path,
-    views: Number(row.views),
-    sessions: Number(row.sessions),
-  }));
+  const paths = rows.map((row) => row.path);
+  const engagement =
+    paths.length > 0
+      ? await prisma.$queryRaw<
+          Array<{ path: string; entries: number; bounces: number; avgTimeOnPage: number | null }>
+        >(
+          Prisma.sql`
+            ${orderedPagesSql(rangeInput)}
+            SELECT
+              path,
+              COUNT(*) FILTER (WHERE page_index = 1)::int AS entries,
+              COUNT(*) FILTER (WHERE page_index = 1 AND bounced)::int AS bounces,
+              ROUND(AVG(seconds_on_page))::int AS "avgTimeOnPage"
+            FROM pages
+            WHERE path IN (${Prisma.join(paths)})
+            GROUP BY path
+          `,
+        )
+      : [];
+  const engagementByPath = new Map(engagement.map((row) => [row.path, row]));
+
+  // Bounce rate is per entry page: only sessions that landed on the path can bounce from it.
+  return rows.map((row) => {
+    const pageEngagement = engagementByPath.get(row.path);
+    const entries = Number(pageEngagement?.entries ?? 0);
+    const bounces = Number(pageEngagement?.bounces ?? 0);
+
+    return {
+      path: row.path,
+      views: Number(row.views),
+      sessions: Number(row.sessions),
+      bounceRate: entries > 0 ? Number((bounces / entries).toFixed(4)) : 0,
+      avgTimeOnPage: Number(pageEngagement?.avgTimeOnPage ?? 0),
+      // Null until pings for the page start reporting scroll depth and engaged time.
+      avgScrollDepth: row.avgScrollDepth === null ? null : Number(row.avgScrollDepth),
+      avgEngagedTime: row.avgEngagedTime === null ? null : Number(row.avgEngagedTime),
+    };
+  });
+}
+
+// Each page view counts once per milestone it reached: a view scrolled to 80% is in 25, 50 and 75.
+export async function getReportScrollDepth(rangeInput: StatsRangeInput = {}, path?: string) {
+  const range = resolveDateRangeOrAll(rangeInput);
+  const pathFilter = path ? Prisma.sql`AND p.path = ${path}` : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<
+    Array<{
+      views: number;
+      measured: number;
+      reached25: number;
+      reached50: number;
+      reached75: number;
+      reached100: number;
+      avgScrollDepth: number | null;
+      avgEngagedTime: number | null;
+      avgVisibleTime: number | null;
+    }>
+  >(
+    Prisma.sql`
+      SELECT
+        COUNT(*)::int AS views,
+        COUNT(p.max_scroll_depth)::int AS measured,
+        COUNT(*) FILTER (WHERE p.max_scroll_depth >= 25)::int AS reached25,
+        COUNT(*) FILTER (WHERE p.max_scroll_depth >= 50)::int AS reached50,
+        COUNT(*) FILTER (WHERE p.max_scroll_depth >= 75)::int AS reached75,
+        COUNT(*) FILTER (WHERE p.max_scroll_depth >= 100)::int AS reached100,
+        ROUND(AVG(p.max_scroll_depth))::int AS "avgScrollDepth",
+        ROUND(AVG(p.engaged_seconds))::int AS "avgEngagedTime",
+        ROUND(AVG(p.visible_seconds))::int AS "avgVisibleTime"
+      FROM page_views p
+      WHERE p.timestamp >= ${range.gte} AND p.timestamp <= ${range.lte}
+        ${scopeFilterSql("p", rangeInput)}
+        ${pathFilter}
+    `,
+  );
+
+  const row = rows[0];
+  const measured = Number(row?.measured ?? 0);
+  const average = (value: number | null | undefined) =>
+    value === null || value === undefined ? null : Number(value);
+  const milestone = (depth: number, reached: number) => ({
+    depth,
+    views: reached,
+    rate: measured > 0 ? Number((reached / measured).toFixed(4)) : 0,
+  });
+
+  return {
+    views: Number(row?.views ?? 0),
+    measuredViews: measured,
+    avgScrollDepth: average(row?.avgScrollDepth),
+    avgEngagedTime: average(row?.avgEngagedTime),
+    avgVisibleTime: average(row?.avgVisibleTime),
+    milestones: [
+      milestone(25, Number(row?.reached25 ?? 0)),
+      milestone(50, Number(row?.reached50 ?? 0)),
+      milestone(75, Number(row?.reached75 ?? 0)),
+      milestone(100, Number(row?.reached100 ?? 0)),
+    ],
+  };
+}
+
+// "Online" means any event in the window: every tracked event moves last_ping_time forward.
+export async function getRealtimeVisitors(
+  scope: Pick<StatsRangeInput, "siteId" | "includeBots">,
+  minutes = 5,
+  limit = 100,
+) {
+  const safeLimit = Math.max(1, Math.min(limit, 500));
+  const since = new Date(Date.now() - Math.max(1, minutes) * 60 * 1000);
+
+  const [sessions, totals] = await Promise.all([
+    prisma.$queryRaw<
+      Array<{
+        id: string;
+        startTime: Date;
+        lastPingTime: Date;
+        currentPage: string | null;
+        country: string | null;
+        deviceType: string | null;
+        browser: string | null;
+      }>
+    >(
+      Prisma.sql`
+        SELECT
+          s.id AS id,
+          s.start_time AS "startTime",
+          s.last_ping_time AS "lastPingTime",
+          (
+            SELECT p.path
+            FROM page_views p
+            WHERE p.session_id = s.id
+            ORDER BY p.timestamp DESC, p.id DESC
+            LIMIT 1
+          ) AS "currentPage",
+          s.country AS country,
+          s.device_type AS "deviceType",
+          s.browser AS browser
+        FROM sessions s
+        WHERE s.last_ping_time >= ${since}
+          ${scopeFilterSql("s", scope)}
+        ORDER BY s.last_ping_time DESC
+        LIMIT ${safeLimit}
+      `,
+    ),
+    prisma.$queryRaw<Array<{ visitors: number }>>(
+      Prisma.sql`
+        SELECT COUNT(*)::int AS visitors
+        FROM sessions s
+        WHERE s.last_ping_time >= ${since}
+          ${scopeFilterSql("s", scope)}
+      `,
+    ),
+  ]);
+
+  return {
+    since,
+    visitors: Number(totals[0]?.visitors ?? 0),
+    sessions,
+  };
 }
 
 export async function getReportDevices(rangeInput: StatsRangeInput = {}) {
@@ -596,6 +1964,7 @@ export async function getReportDevices(rangeInput: StatsRangeInput = {}) {
         COUNT(*)::int AS sessions
       FROM sessions s
       WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
       GROUP BY 1
       ORDER BY sessions DESC
     `,
@@ -607,6 +1976,60 @@ export async function getReportDevices(rangeInput: StatsRangeInput = {}) {
   }));
 }
 
+export async function getReportBrowsers(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  const rows = await prisma.$queryRaw<
+    Array<{ browser: string; version: string | null; sessions: number }>
+  >(
+    Prisma.sql`
+      SELECT
+        COALESCE(NULLIF(s.browser, ''), 'unknown') AS browser,
+        NULLIF(split_part(s.browser_version, '.', 1), '') AS version,
+        COUNT(*)::int AS sessions
+      FROM sessions s
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+      GROUP BY 1, 2
+      ORDER BY sessions DESC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  return rows.map((row) => ({
+    browser: row.browser,
+    version: row.version,
+    sessions: Number(row.sessions),
+  }));
+}
+
+export async function getReportOperatingSystems(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  const rows = await prisma.$queryRaw<Array<{ os: string; version: string | null; sessions: number }>>(
+    Prisma.sql`
+      SELECT
+        COALESCE(NULLIF(s.os, ''), 'unknown') AS os,
+        NULLIF(s.os_version, '') AS version,
+        COUNT(*)::int AS sessions
+      FROM sessions s
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+      GROUP BY 1, 2
+      ORDER BY sessions DESC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  return rows.map((row) => ({
+    os: row.os,
+    version: row.version,
+    sessions: Number(row.sessions),
+  }));
+}
+
 export async function getReportTopDevice(rangeInput: StatsRangeInput = {}) {
   const devices = await getReportDevices(rangeInput);
   const top = devices[0];
@@ -625,6 +2048,7 @@ export async function getReportCities(rangeInput: StatsRangeInput = {}, limit =
         COUNT(*)::int AS sessions
       FROM sessions s
       WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
       GROUP BY 1
       ORDER BY sessions DESC
       LIMIT ${safeLimit}
@@ -637,25 +2061,505 @@ export async function getReportCities(rangeInput: StatsRangeInput = {}, limit =
   }));
 }
 
-export async function getReportSessionDuration(rangeInput: StatsRangeInput = {}) {
+export async function getReportCountries(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
   const range = resolveDateRangeOrAll(rangeInput);
 
-  const stats = await prisma.$queryRaw<
-    Array<{
-      avgDuration: number | null;
-      maxDuration: number | null;
-      minDuration: number | null;
-      sessions: number;
-    }>
-  >(
+  const rows = await prisma.$queryRaw<Array<{ country: string; sessions: number }>>(
     Prisma.sql`
       SELECT
-        ROUND(AVG(s.duration))::int AS "avgDuration",
-        MAX(s.duration)::int AS "maxDuration",
-        MIN(s.duration)::int AS "minDuration",
+        COALESCE(NULLIF(UPPER(s.country), ''), 'unknown') AS country,
         COUNT(*)::int AS sessions
       FROM sessions s
       WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+      GROUP BY 1
+      ORDER BY sessions DESC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  return rows.map((row) => ({
+    country: row.country,
+    sessions: Number(row.sessions),
+  }));
+}
+
+type AttributionRow = {
+  sessions: number;
+  pageViews: number;
+  conversions: number;
+};
+
+function attributionTotals(row: AttributionRow) {
+  const sessions = Number(row.sessions);
+  const conversions = Number(row.conversions);
+
+  return {
+    sessions,
+    pageViews: Number(row.pageViews),
+    conversions,
+    conversionRate: sessions > 0 ? Number((conversions / sessions).toFixed(4)) : 0,
+  };
+}
+
+export type HeatmapDevice = "mobile" | "tablet" | "desktop";
+
+// Viewport-width breakpoints; clicks without a viewport width cannot be placed on the grid.
+const HEATMAP_TABLET_MIN_WIDTH = 768;
+const HEATMAP_DESKTOP_MIN_WIDTH = 1024;
+
+// Coordinates are scaled by viewport width on both axes, so a cell is square and the same
+// element lands in the same column whatever the exact screen size within a device class.
+export async function getReportHeatmap(
+  rangeInput: StatsRangeInput,
+  path: string,
+  options: { grid: number; device?: HeatmapDevice; limit: number },
+) {
+  const grid = Math.max(5, Math.min(options.grid, 100));
+  const safeLimit = Math.max(1, Math.min(options.limit, 100));
+  const range = resolveDateRangeOrAll(rangeInput);
+  const pageFilter = Prisma.sql`
+    c.timestamp >= ${range.gte} AND c.timestamp <= ${range.lte}
+      AND c.page_path = ${path}
+      ${scopeFilterSql("c", rangeInput)}
+  `;
+  const deviceFilter = options.device ? Prisma.sql`WHERE device = ${options.device}` : Prisma.empty;
+
+  const [cells, pages, elements, unplaced] = await Promise.all([
+    prisma.$queryRaw<Array<{ device: HeatmapDevice; col: number; row: number; clicks: number }>>(
+      Prisma.sql`
+        WITH placed AS (
+          SELECT
+            CASE
+              WHEN c.viewport_width < ${HEATMAP_TABLET_MIN_WIDTH} THEN 'mobile'
+              WHEN c.viewport_width < ${HEATMAP_DESKTOP_MIN_WIDTH} THEN 'tablet'
+              ELSE 'desktop'
+            END AS device,
+            LEAST(GREATEST(FLOOR(c.x::float / c.viewport_width * ${grid}), 0), ${grid - 1})::int AS col,
+            GREATEST(FLOOR(c.y::float / c.viewport_width * ${grid}), 0)::int AS "row"
+          FROM clicks c
+          WHERE ${pageFilter}
+            AND c.viewport_width IS NOT NULL
+        )
+        SELECT device, col, "row", COUNT(*)::int AS clicks
+        FROM placed
+        ${deviceFilter}
+        GROUP BY device, col, "row"
+        ORDER BY device, "row", col
+      `,
+    ),
+    prisma.$queryRaw<Array<{ device: HeatmapDevice; rows: number | null; viewportWidth: number | null }>>(
+      Prisma.sql`
+        SELECT
+          CASE
+            WHEN c.viewport_width < ${HEATMAP_TABLET_MIN_WIDTH} THEN 'mobile'
+            WHEN c.viewport_width < ${HEATMAP_DESKTOP_MIN_WIDTH} THEN 'tablet'
+            ELSE 'desktop'
+          END AS device,
+          CEIL(MAX(c.page_height::float / c.viewport_width * ${grid}))::int AS rows,
+          ROUND(AVG(c.viewport_width))::int AS "viewportWidth"
+        FROM clicks c
+        WHERE ${pageFilter}
+          AND c.viewport_width IS NOT NULL
+        GROUP BY 1
+      `,
+    ),
+    prisma.$queryRaw<
+      Array<{ elementTag: string | null; elementId: string | null; elementClass: string | null; clicks: number }>
+    >(
+      Prisma.sql`
+        SELECT
+          LOWER(c.element_tag) AS "elementTag",
+          NULLIF(c.element_id, '') AS "elementId",
+          NULLIF(c.element_class, '') AS "elementClass",
+          COUNT(*)::int AS clicks
+        FROM clicks c
+        WHERE ${pageFilter}
+          AND (NULLIF(c.element_id, '') IS NOT NULL OR NULLIF(c.element_class, '') IS NOT NULL)
+        GROUP BY 1, 2, 3
+        ORDER BY clicks DESC
+        LIMIT ${safeLimit}
+      `,
+    ),
+    prisma.$queryRaw<Array<{ clicks: number }>>(
+      Prisma.sql`
+        SELECT COUNT(*)::int AS clicks
+        FROM clicks c
+        WHERE ${pageFilter}
+          AND c.viewport_width IS NULL
+      `,
+    ),
+  ]);
+
+  const devices: HeatmapDevice[] = options.device ? [options.device] : ["mobile", "tablet", "desktop"];
+
+  return {
+    grid,
+    devices: devices.map((device) => {
+      const deviceCells = cells.filter((cell) => cell.device === device);
+      const page = pages.find((row) => row.device === device);
+      const maxRow = deviceCells.reduce((max, cell) => Math.max(max, Number(cell.row)), -1);
+
+      return {
+        device,
+        clicks: deviceCells.reduce((sum, cell) => sum + Number(cell.clicks), 0),
+        columns: grid,
+        rows: Math.max(Number(page?.rows ?? 0), maxRow + 1),
+        viewportWidth: page && page.viewportWidth !== null ? Number(page.viewportWidth) : null,
+        cells: deviceCells.map((cell) => ({
+          col: Number(cell.col),
+          row: Number(cell.row),
+          clicks: Number(cell.clicks),
+        })),
+      };
+    }),
+    elements: elements.map((row) => ({
+      elementTag: row.elementTag,
+      elementId: row.elementId,
+      elementClass: row.elementClass,
+      clicks: Number(row.clicks),
+    })),
+    unplacedClicks: Number(unplaced[0]?.clicks ?? 0),
+  };
+}
+
+// A conversion is a session with at least one goal, so one session never counts twice.
+export async function getReportReferrers(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  const rows = await prisma.$queryRaw<Array<AttributionRow & { source: string; name: string | null }>>(
+    Prisma.sql`
+      SELECT
+        COALESCE(s.referrer_source, 'direct') AS source,
+        s.referrer_name AS name,
+        COUNT(*)::int AS sessions,
+        COALESCE(SUM((SELECT COUNT(*) FROM page_views pv WHERE pv.session_id = s.id)), 0)::int AS "pageViews",
+        COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM goals g WHERE g.session_id = s.id))::int AS conversions
+      FROM sessions s
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
+      GROUP BY 1, 2
+      ORDER BY sessions DESC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  return rows.map((row) => ({
+    source: row.source,
+    name: row.name,
+    ...attributionTotals(row),
+  }));
+}
+
+export async function getReportCampaigns(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  const rows = await prisma.$queryRaw<
+    Array<AttributionRow & { campaign: string | null; source: string | null; medium: string | null }>
+  >(
+    Prisma.sql`
+      SELECT
+        s.utm_campaign AS campaign,
+        s.utm_source AS source,
+        s.utm_medium AS medium,
+        COUNT(*)::int AS sessions,
+        COALESCE(SUM((SELECT COUNT(*) FROM page_views pv WHERE pv.session_id = s.id)), 0)::int AS "pageViews",
+        COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM goals g WHERE g.session_id = s.id))::int AS conversions
+      FROM sessions s
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        AND (s.utm_campaign IS NOT NULL OR s.utm_source IS NOT NULL)
+        ${scopeFilterSql("s", rangeInput)}
+      GROUP BY 1, 2, 3
+      ORDER BY sessions DESC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  return rows.map((row) => ({
+    campaign: row.campaign,
+    source: row.source,
+    medium: row.medium,
+    ...attributionTotals(row),
+  }));
+}
+
+// Containment (@>) is what the GIN jsonb_path_ops index on properties serves. Query strings carry
+// no type, so "1" also matches the number 1 and "true" the boolean.
+function eventPropertyFilterSql(key: string, value: string) {
+  const candidates: Array<string | number | boolean> = [value];
+  const numeric = Number(value);
+  if (value.trim() !== "" && Number.isFinite(numeric)) {
+    candidates.push(numeric);
+  }
+  if (value === "true" || value === "false") {
+    candidates.push(value === "true");
+  }
+
+  const clauses = candidates.map(
+    (candidate) => Prisma.sql`e.properties @> ${JSON.stringify({ [key]: candidate })}::jsonb`,
+  );
+  return Prisma.sql`AND (${Prisma.join(clauses, " OR ")})`;
+}
+
+// Without a property this lists event names; with one it breaks the (optionally named) events
+// down by that property's value, keeping the JSON type so 1 and "1" stay separate rows.
+export async function getReportEvents(
+  rangeInput: StatsRangeInput = {},
+  filter: EventsReportFilter = {},
+  limit = 20,
+) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
+  const range = resolveDateRangeOrAll(rangeInput);
+  const nameFilter = filter.name ? Prisma.sql`AND e.name = ${filter.name}` : Prisma.empty;
+  const propertyFilter = filter.where ? eventPropertyFilterSql(filter.where.key, filter.where.value) : Prisma.empty;
+
+  if (!filter.property) {
+    const rows = await prisma.$queryRaw<Array<{ name: string; events: number; sessions: number }>>(
+      Prisma.sql`
+        SELECT
+          e.name AS name,
+          COUNT(*)::int AS events,
+          COUNT(DISTINCT e.session_id)::int AS sessions
+        FROM custom_events e
+        WHERE e.timestamp >= ${range.gte} AND e.timestamp <= ${range.lte}
+          ${scopeFilterSql("e", rangeInput)}
+          ${nameFilter}
+          ${propertyFilter}
+        GROUP BY e.name
+        ORDER BY events DESC
+        LIMIT ${safeLimit}
+      `,
+    );
+
+    return rows.map((row) => ({
+      name: row.name,
+      events: Number(row.events),
+      sessions: Number(row.sessions),
+    }));
+  }
+
+  const rows = await prisma.$queryRaw<
+    Array<{ value: string | null; type: string | null; events: number; sessions: number }>
+  >(
+    Prisma.sql`
+      SELECT
+        e.properties->>${filter.property} AS value,
+        jsonb_typeof(e.properties->${filter.property}) AS type,
+        COUNT(*)::int AS events,
+        COUNT(DISTINCT e.session_id)::int AS sessions
+      FROM custom_events e
+      WHERE e.timestamp >= ${range.gte} AND e.timestamp <= ${range.lte}
+        ${scopeFilterSql("e", rangeInput)}
+        ${nameFilter}
+        ${propertyFilter}
+      GROUP BY 1, 2
+      ORDER BY events DESC
+      LIMIT ${safeLimit}
+    `,
+  );
+
+  return rows.map((row) => ({
+    value: row.value,
+    type: row.type ?? "missing",
+    events: Number(row.events),
+    sessions: Number(row.sessions),
+  }));
+}
+
+// Conversion rate divides sessions that reached a goal by every session started in the range.
+export async function getReportGoals(rangeInput: StatsRangeInput = {}, limit = 20) {
+  const safeLimit = Math.max(1, Math.min(limit, 100));
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  const [rows, sessionTotals] = await Promise.all([
+    prisma.$queryRaw<
+      Array<{
+        name: string;
+        currency: string | null;
+        definitionId: number | null;
+        completions: number;
+        conversions: number;
+        value: number | null;
+      }>
+    >(
+      Prisma.sql`
+        SELECT
+          g.name AS name,
+          g.currency AS currency,
+          MAX(g.definition_id) AS "definitionId",
+          COUNT(*)::int AS completions,
+          COUNT(DISTINCT g.session_id)::int AS conversions,
+          SUM(g.value)::float AS value
+        FROM goals g
+        WHERE g.timestamp >= ${range.gte} AND g.timestamp <= ${range.lte}
+          ${scopeFilterSql("g", rangeInput)}
+        GROUP BY g.name, g.currency
+        ORDER BY conversions DESC, completions DESC
+        LIMIT ${safeLimit}
+      `,
+    ),
+    prisma.$queryRaw<Array<{ sessions: number }>>(
+      Prisma.sql`
+        SELECT COUNT(*)::int AS sessions
+        FROM sessions s
+        WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+          ${scopeFilterSql("s", rangeInput)}
+      `,
+    ),
+  ]);
+
+  const sessions = Number(sessionTotals[0]?.sessions ?? 0);
+
+  return {
+    sessions,
+    rows: rows.map((row) => {
+      const conversions = Number(row.conversions);
+
+      return {
+        name: row.name,
+        definitionId: row.definitionId === null ? null : Number(row.definitionId),
+        completions: Number(row.completions),
+        conversions,
+        conversionRate: sessions > 0 ? Number((conversions / sessions).toFixed(4)) : 0,
+        value: row.value === null ? 0 : Number(row.value),
+        currency: row.currency,
+      };
+    }),
+  };
+}
+
+function funnelStepMatchSql(step: FunnelStep) {
+  return step.type === "page"
+    ? Prisma.sql`e.kind = 'page' AND e.label LIKE ${pathPatternToLike(step.match)}`
+    : Prisma.sql`e.kind = 'goal' AND e.label = ${step.match}`;
+}
+
+// Each step takes the earliest matching event strictly after the event that satisfied the previous
+// step, so one page view can never complete two steps ("/*" then "/pricing"). Events are ordered by
+// time, then page views before goals (an automatic goal shares its page view's timestamp), then id.
+// With a window, every step has to land within that many minutes of the session's first step-1
+// match; a later repeat of step 1 does not restart the window.
+export async function getReportFunnel(
+  funnel: { siteId: number; steps: FunnelStep[]; windowMinutes: number | null },
+  rangeInput: StatsRangeInput = {},
+) {
+  const range = resolveDateRangeOrAll(rangeInput);
+  const scope = { ...rangeInput, siteId: funnel.siteId };
+  const windowSql =
+    funnel.windowMinutes !== null
+      ? Prisma.sql`AND e.timestamp <= origin.at + ${funnel.windowMinutes}::int * INTERVAL '1 minute'`
+      : Prisma.empty;
+
+  const stepCtes = funnel.steps.map((step, index) => {
+    const name = Prisma.raw(`step_${index + 1}`);
+    if (index === 0) {
+      return Prisma.sql`
+        ${name} AS (
+          SELECT DISTINCT ON (e.session_id) e.session_id, e.seq, e.timestamp AS at
+          FROM events e
+          WHERE ${funnelStepMatchSql(step)}
+          ORDER BY e.session_id, e.seq
+        )`;
+    }
+
+    const previous = Prisma.raw(`step_${index}`);
+    return Prisma.sql`
+      ${name} AS (
+        SELECT DISTINCT ON (e.session_id) e.session_id, e.seq, e.timestamp AS at
+        FROM events e
+        JOIN ${previous} prev ON prev.session_id = e.session_id AND e.seq > prev.seq
+        JOIN step_1 origin ON origin.session_id = e.session_id
+        WHERE ${funnelStepMatchSql(step)} ${windowSql}
+        ORDER BY e.session_id, e.seq
+      )`;
+  });
+
+  const counts = funnel.steps.map(
+    (_, index) =>
+      Prisma.sql`SELECT ${index + 1}::int AS step, COUNT(*)::int AS sessions FROM ${Prisma.raw(`step_${index + 1}`)}`,
+  );
+
+  const rows = await prisma.$queryRaw<Array<{ step: number; sessions: number }>>(
+    Prisma.sql`
+      WITH scoped AS (
+        SELECT s.id
+        FROM sessions s
+        WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+          ${scopeFilterSql("s", scope)}
+      ),
+      raw_events AS (
+        SELECT p.session_id, 'page' AS kind, 0 AS kind_order, p.id, p.path AS label, p.timestamp
+        FROM page_views p
+        JOIN scoped ON scoped.id = p.session_id
+        UNION ALL
+        SELECT g.session_id, 'goal' AS kind, 1 AS kind_order, g.id, g.name AS label, g.timestamp
+        FROM goals g
+        JOIN scoped ON scoped.id = g.session_id
+      ),
+      events AS (
+        SELECT
+          r.*,
+          ROW_NUMBER() OVER (PARTITION BY r.session_id ORDER BY r.timestamp, r.kind_order, r.id) AS seq
+        FROM raw_events r
+      ),
+      ${Prisma.join(stepCtes, ",")}
+      ${Prisma.join(counts, " UNION ALL ")}
+      ORDER BY step
+    `,
+  );
+
+  const sessionsByStep = new Map(rows.map((row) => [Number(row.step), Number(row.sessions)]));
+  const entered = sessionsByStep.get(1) ?? 0;
+
+  const steps = funnel.steps.map((step, index) => {
+    const sessions = sessionsByStep.get(index + 1) ?? 0;
+    const previous = index === 0 ? sessions : (sessionsByStep.get(index) ?? 0);
+
+    return {
+      step: index + 1,
+      type: step.type,
+      match: step.match,
+      label: step.label ?? step.match,
+      sessions,
+      conversionRate: entered > 0 ? Number((sessions / entered).toFixed(4)) : 0,
+      dropOff: previous - sessions,
+      dropOffRate: previous > 0 ? Number(((previous - sessions) / previous).toFixed(4)) : 0,
+    };
+  });
+
+  const completed = steps.length > 0 ? steps[steps.length - 1].sessions : 0;
+
+  return {
+    entered,
+    completed,
+    conversionRate: entered > 0 ? Number((completed / entered).toFixed(4)) : 0,
+    steps,
+  };
+}
+
+export async function getReportSessionDuration(rangeInput: StatsRangeInput = {}) {
+  const range = resolveDateRangeOrAll(rangeInput);
+
+  const stats = await prisma.$queryRaw<
+    Array<{
+      avgDuration: number | null;
+      maxDuration: number | null;
+      minDuration: number | null;
+      sessions: number;
+    }>
+  >(
+    Prisma.sql`
+      SELECT
+        ROUND(AVG(s.duration))::int AS "avgDuration",
+        MAX(s.duration)::int AS "maxDuration",
+        MIN(s.duration)::int AS "minDuration",
+        COUNT(*)::int AS sessions
+      FROM sessions s
+      WHERE s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}
+        ${scopeFilterSql("s", rangeInput)}
     `,
   );
 
@@ -668,23 +2572,532 @@ export async function getReportSessionDuration(rangeInput: StatsRangeInput = {})
   };
 }
 
-export async function upsertAdminUser(email: string, password: string) {
+// Sessions created before attribution was recorded have no landing_page; fall back to their first page view.
+const SESSION_ENTRY_PAGE_SQL = Prisma.sql`COALESCE(
+  s.landing_page,
+  (SELECT p.path FROM page_views p WHERE p.session_id = s.id ORDER BY p.timestamp ASC, p.id ASC LIMIT 1)
+)`;
+
+function sessionListFilterSql(filter: SessionListFilter) {
+  const range = resolveDateRangeOrAll(filter);
+  const conditions = [
+    Prisma.sql`s.start_time >= ${range.gte} AND s.start_time <= ${range.lte}`,
+    scopeFilterSql("s", filter),
+    filter.city ? Prisma.sql`AND s.city = ${filter.city}` : Prisma.empty,
+    filter.country ? Prisma.sql`AND s.country = ${filter.country}` : Prisma.empty,
+    filter.deviceType ? Prisma.sql`AND s.device_type = ${filter.deviceType}` : Prisma.empty,
+    filter.browser ? Prisma.sql`AND s.browser = ${filter.browser}` : Prisma.empty,
+    filter.entryPage
+      ? Prisma.sql`AND ${SESSION_ENTRY_PAGE_SQL} LIKE ${pathPatternToLike(filter.entryPage)}`
+      : Prisma.empty,
+    filter.hasGoal === undefined
+      ? Prisma.empty
+      : Prisma.sql`AND ${filter.hasGoal ? Prisma.empty : Prisma.sql`NOT`} EXISTS (
+          SELECT 1 FROM goals g WHERE g.session_id = s.id
+        )`,
+  ];
+
+  return Prisma.join(conditions, " ");
+}
+
+export async function listSessions(filter: SessionListFilter = {}) {
+  const pageSize = Math.max(1, Math.min(filter.pageSize ?? 25, 100));
+  const page = Math.max(1, filter.page ?? 1);
+  const where = sessionListFilterSql(filter);
+
+  const [sessions, totals] = await Promise.all([
+    prisma.$queryRaw<
+      Array<{
+        id: string;
+        siteId: number;
+        startTime: Date;
+        lastPingTime: Date;
+        duration: number;
+        isBot: boolean;
+        deviceType: string | null;
+        browser: string | null;
+        os: string | null;
+        country: string | null;
+        region: string | null;
+        city: string | null;
+        referrerSource: string | null;
+        referrerName: string | null;
+        utmCampaign: string | null;
+        entryPage: string | null;
+        pageViews: number;
+        clicks: number;
+        goals: number;
+      }>
+    >(
+      Prisma.sql`
+        SELECT
+          s.id AS id,
+          s.site_id AS "siteId",
+          s.start_time AS "startTime",
+          s.last_ping_time AS "lastPingTime",
+          s.duration AS duration,
+          s.is_bot AS "isBot",
+          s.device_type AS "deviceType",
+          s.browser AS browser,
+          s.os AS os,
+          s.country AS country,
+          s.region AS region,
+          s.city AS city,
+          s.referrer_source AS "referrerSource",
+          s.referrer_name AS "referrerName",
+          s.utm_campaign AS "utmCampaign",
+          ${SESSION_ENTRY_PAGE_SQL} AS "entryPage",
+          (SELECT COUNT(*) FROM page_views p WHERE p.session_id = s.id)::int AS "pageViews",
+          (SELECT COUNT(*) FROM clicks c WHERE c.session_id = s.id)::int AS clicks,
+          (SELECT COUNT(*) FROM goals g WHERE g.session_id = s.id)::int AS goals
+        FROM sessions s
+        WHERE ${where}
+        ORDER BY s.start_time DESC, s.id ASC
+        LIMIT ${pageSize}
+        OFFSET ${(page - 1) * pageSize}
+      `,
+    ),
+    prisma.$queryRaw<Array<{ total: number }>>(
+      Prisma.sql`
+        SELECT COUNT(*)::int AS total
+        FROM sessions s
+        WHERE ${where}
+      `,
+    ),
+  ]);
+
+  return {
+    page,
+    pageSize,
+    total: Number(totals[0]?.total ?? 0),
+    sessions: sessions.map((session) => ({
+      ...session,
+      duration: Number(session.duration),
+      pageViews: Number(session.pageViews),
+      clicks: Number(session.clicks),
+      goals: Number(session.goals),
+    })),
+  };
+}
+
+export async function getSessionTimeline(id: string) {
+  const session = await prisma.session.findUnique({ where: { id } });
+  if (!session) {
+    return null;
+  }
+
+  const where = { sessionId: id };
+  const [pageViews, clicks, pings, goals, customEvents] = await Promise.all([
+    prisma.pageView.findMany({ where, orderBy: [{ timestamp: "asc" }, { id: "asc" }] }),
+    prisma.click.findMany({ where, orderBy: [{ timestamp: "asc" }, { id: "asc" }] }),
+    prisma.ping.findMany({ where, orderBy: [{ timestamp: "asc" }, { id: "asc" }] }),
+    prisma.goal.findMany({ where, orderBy: [{ timestamp: "asc" }, { id: "asc" }] }),
+    prisma.customEvent.findMany({ where, orderBy: [{ timestamp: "asc" }, { id: "asc" }] }),
+  ]);
+
+  const steps: Array<Omit<SessionTimelineStep, "secondsSinceStart" | "secondsSincePrevious">> = [
+    ...pageViews.map((pageView) => ({
+      type: "pageview" as const,
+      id: pageView.id,
+      timestamp: pageView.timestamp,
+      path: pageView.path,
+      details: {
+        maxScrollDepth: pageView.maxScrollDepth,
+        engagedSeconds: pageView.engagedSeconds,
+        visibleSeconds: pageView.visibleSeconds,
+      },
+    })),
+    ...clicks.map((click) => ({
+      type: "click" as const,
+      id: click.id,
+      timestamp: click.timestamp,
+      path: click.pagePath,
+      details: {
+        elementTag: click.elementTag,
+        elementId: click.elementId,
+        elementClass: click.elementClass,
+        elementText: click.elementText,
+        x: click.x,
+        y: click.y,
+      },
+    })),
+    ...pings.map((ping) => ({
+      type: "ping" as const,
+      id: ping.id,
+      timestamp: ping.timestamp,
+      path: ping.pagePath,
+      details: {
+        duration: ping.duration,
+        scrollDepth: ping.scrollDepth,
+        engagedSeconds: ping.engagedSeconds,
+      },
+    })),
+    ...goals.map((goal) => ({
+      type: "goal" as const,
+      id: goal.id,
+      timestamp: goal.timestamp,
+      path: goal.path,
+      details: {
+        name: goal.name,
+        value: goal.value,
+        currency: goal.currency,
+        definitionId: goal.definitionId,
+      },
+    })),
+    ...customEvents.map((event) => ({
+      type: "event" as const,
+      id: event.id,
+      timestamp: event.timestamp,
+      path: event.pagePath,
+      details: {
+        name: event.name,
+        properties: event.properties,
+      },
+    })),
+  ];
+
+  // Array.prototype.sort is stable, so steps sharing a timestamp keep the page view, click, ping, goal, event order.
+  steps.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const sessionStart = Math.min(session.startTime.getTime(), steps[0]?.timestamp.getTime() ?? Infinity);
+  const timeline: SessionTimelineStep[] = steps.map((step, index) => ({
+    ...step,
+    secondsSinceStart: Math.round((step.timestamp.getTime() - sessionStart) / 1000),
+    secondsSincePrevious:
+      index === 0 ? null : Math.round((step.timestamp.getTime() - steps[index - 1].timestamp.getTime()) / 1000),
+  }));
+
+  return { session, timeline };
+}
+
+function generateSiteKey() {
+  return `site_${randomBytes(12).toString("hex")}`;
+}
+
+export async function findSiteByKey(key: string) {
+  const cached = siteCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.site;
+  }
+
+  const site = await prisma.site.findUnique({
+    where: { key },
+    select: { id: true, key: true },
+  });
+
+  // Keys arrive on the public tracking endpoint, so only real sites are cached; caching misses
+  // would let random keys grow the map without bound.
+  if (site) {
+    siteCache.set(key, { site, expiresAt: Date.now() + SITE_CACHE_TTL_MS });
+  } else {
+    siteCache.delete(key);
+  }
+  return site;
+}
+
+export async function listSites() {
+  return prisma.site.findMany({
+    orderBy: { id: "asc" },
+  });
+}
+
+export async function getSite(id: number) {
+  return prisma.site.findUnique({
+    where: { id },
+  });
+}
+
+export async function createSite(input: SiteInput) {
+  return prisma.site.create({
+    data: {
+      key: generateSiteKey(),
+      name: input.name,
+      domain: input.domain,
+    },
+  });
+}
+
+export async function updateSite(id: number, input: Partial<SiteInput>) {
+  return prisma.site.update({
+    where: { id },
+    data: {
+      name: input.name,
+      domain: input.domain,
+    },
+  });
+}
+
+export async function listGoalDefinitions(siteId?: number) {
+  return prisma.goalDefinition.findMany({
+    where: { siteId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function getGoalDefinition(id: number) {
+  return prisma.goalDefinition.findUnique({
+    where: { id },
+  });
+}
+
+export async function findGoalDefinitionByName(siteId: number, name: string) {
+  return prisma.goalDefinition.findUnique({
+    where: { siteId_name: { siteId, name } },
+  });
+}
+
+export async function createGoalDefinition(input: GoalDefinitionInput) {
+  const definition = await prisma.goalDefinition.create({
+    data: {
+      siteId: input.siteId,
+      name: input.name,
+      matchType: input.matchType,
+      matchValue: input.matchValue,
+      value: input.value ?? null,
+      currency: input.currency ?? null,
+      isActive: input.isActive ?? true,
+    },
+  });
+
+  goalDefinitionCache.delete(definition.siteId);
+  return definition;
+}
+
+export async function updateGoalDefinition(id: number, input: Partial<Omit<GoalDefinitionInput, "siteId">>) {
+  const definition = await prisma.goalDefinition.update({
+    where: { id },
+    data: {
+      name: input.name,
+      matchType: input.matchType,
+      matchValue: input.matchValue,
+      value: input.value,
+      currency: input.currency,
+      isActive: input.isActive,
+    },
+  });
+
+  goalDefinitionCache.delete(definition.siteId);
+  return definition;
+}
+
+// Goals already recorded keep their name and value; they only lose the link to the definition.
+export async function deleteGoalDefinition(id: number) {
+  const definition = await prisma.goalDefinition.delete({
+    where: { id },
+  });
+
+  goalDefinitionCache.delete(definition.siteId);
+}
+
+// With a site, lists that site's categories together with the shared built-ins.
+export async function listClickCategories(siteId?: number) {
+  return prisma.clickCategory.findMany({
+    where: siteId === undefined ? undefined : { OR: [{ siteId }, { siteId: null }] },
+    orderBy: [{ name: "asc" }, { siteId: { sort: "asc", nulls: "first" } }],
+  });
+}
+
+export async function getClickCategory(id: number) {
+  return prisma.clickCategory.findUnique({
+    where: { id },
+  });
+}
+
+export async function findClickCategoryByName(siteId: number | null, name: string) {
+  return prisma.clickCategory.findFirst({
+    where: { siteId, name },
+  });
+}
+
+// The category a report uses: the site's own when it has one, otherwise the shared one.
+export async function findClickCategory(name: string, siteId?: number) {
+  return prisma.clickCategory.findFirst({
+    where: { name, OR: [{ siteId: siteId ?? null }, { siteId: null }] },
+    orderBy: { siteId: { sort: "asc", nulls: "last" } },
+  });
+}
+
+export async function createClickCategory(input: ClickCategoryInput) {
+  return prisma.clickCategory.create({
+    data: {
+      siteId: input.siteId,
+      name: input.name,
+      rules: input.rules,
+    },
+  });
+}
+
+export async function updateClickCategory(id: number, input: Partial<Omit<ClickCategoryInput, "siteId">>) {
+  return prisma.clickCategory.update({
+    where: { id },
+    data: {
+      name: input.name,
+      rules: input.rules,
+    },
+  });
+}
+
+export async function deleteClickCategory(id: number) {
+  await prisma.clickCategory.delete({
+    where: { id },
+  });
+}
+
+export async function listFunnels(siteId?: number) {
+  return prisma.funnel.findMany({
+    where: { siteId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function getFunnel(id: number) {
+  return prisma.funnel.findUnique({
+    where: { id },
+  });
+}
+
+export async function createFunnel(input: FunnelInput) {
+  return prisma.funnel.create({
+    data: {
+      siteId: input.siteId,
+      name: input.name,
+      steps: input.steps,
+      windowMinutes: input.windowMinutes ?? null,
+    },
+  });
+}
+
+export async function updateFunnel(id: number, input: Partial<Omit<FunnelInput, "siteId">>) {
+  return prisma.funnel.update({
+    where: { id },
+    data: {
+      name: input.name,
+      steps: input.steps,
+      windowMinutes: input.windowMinutes,
+    },
+  });
+}
+
+export async function deleteFunnel(id: number) {
+  await prisma.funnel.delete({
+    where: { id },
+  });
+}
+
+const adminUserSelect = {
+  id: true,
+  email: true,
+  role: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.AdminUserSelect;
+
+export async function ensureBootstrapAdmin(email: string, password: string) {
   const normalizedEmail = normalizeEmail(email);
-  const passwordHash = hashPassword(password);
 
+  // Only create the bootstrap owner; never overwrite a password changed through the API.
   return prisma.adminUser.upsert({
     where: { email: normalizedEmail },
-    update: {
-      passwordHash,
-      isActive: true,
-    },
+    update: {},
     create: {
       email: normalizedEmail,
-      passwordHash,
+      passwordHash: hashPassword(password),
+      role: "owner",
+    },
+    select: adminUserSelect,
+  });
+}
+
+export async function listAdminUsers() {
+  return prisma.adminUser.findMany({
+    orderBy: { id: "asc" },
+    select: adminUserSelect,
+  });
+}
+
+export async function getAdminUser(id: number) {
+  return prisma.adminUser.findUnique({
+    where: { id },
+    select: adminUserSelect,
+  });
+}
+
+export async function findAdminUserByEmail(email: string) {
+  return prisma.adminUser.findUnique({
+    where: { email: normalizeEmail(email) },
+    select: adminUserSelect,
+  });
+}
+
+export async function createAdminUser(input: AdminUserInput) {
+  return prisma.adminUser.create({
+    data: {
+      email: normalizeEmail(input.email),
+      passwordHash: hashPassword(input.password),
+      role: input.role ?? "viewer",
+    },
+    select: adminUserSelect,
+  });
+}
+
+export async function updateAdminUser(id: number, input: AdminUserUpdate) {
+  const adminUser = await prisma.adminUser.update({
+    where: { id },
+    data: {
+      role: input.role,
+      isActive: input.isActive,
+    },
+    select: adminUserSelect,
+  });
+
+  if (input.isActive === false) {
+    await revokeAllAdminSessions(id);
+  }
+
+  return adminUser;
+}
+
+export async function countActiveOwners(excludeId?: number) {
+  return prisma.adminUser.count({
+    where: {
+      role: "owner",
+      isActive: true,
+      id: excludeId === undefined ? undefined : { not: excludeId },
     },
   });
 }
 
+export async function setAdminPassword(id: number, password: string, keepSessionId?: string) {
+  await prisma.adminUser.update({
+    where: { id },
+    data: { passwordHash: hashPassword(password) },
+  });
+
+  await prisma.adminSession.deleteMany({
+    where: {
+      adminUserId: id,
+      id: keepSessionId === undefined ? undefined : { not: keepSessionId },
+    },
+  });
+}
+
+export async function resetAdminPassword(id: number) {
+  const temporaryPassword = randomBytes(12).toString("base64url");
+  await setAdminPassword(id, temporaryPassword);
+
+  return temporaryPassword;
+}
+
+export async function verifyAdminPassword(id: number, password: string) {
+  const adminUser = await prisma.adminUser.findUnique({
+    where: { id },
+    select: { passwordHash: true },
+  });
+
+  return adminUser ? verifyPassword(password, adminUser.passwordHash) : false;
+}
+
 export async function verifyAdminCredentials(email: string, password: string) {
   const normalizedEmail = normalizeEmail(email);
 
@@ -693,6 +3106,7 @@ export async function verifyAdminCredentials(email: string, password: string) {
     select: {
       id: true,
       email: true,
+      role: true,
       passwordHash: true,
       isActive: true,
     },
@@ -707,22 +3121,68 @@ export async function verifyAdminCredentials(email: string, password: string) {
     return null;
   }
 
-  return { id: adminUser.id, email: adminUser.email };
+  return { id: adminUser.id, email: adminUser.email, role: adminUser.role };
 }
 
-export async function createAdminSession(token: string, adminUserId: number) {
+export async function createAdminSession(
+  token: string,
+  adminUserId: number,
+  context: AdminSessionContext = {},
+) {
   await prisma.adminSession.create({
-    data: { id: token, adminUserId },
+    data: {
+      id: token,
+      adminUserId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
   });
 }
 
 export async function verifyAdminToken(token: string) {
   const session = await prisma.adminSession.findUnique({
     where: { id: token },
-    select: { id: true },
+    select: {
+      id: true,
+      createdAt: true,
+      lastUsedAt: true,
+      adminUser: {
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          isActive: true,
+        },
+      },
+    },
   });
 
-  return Boolean(session);
+  if (!session) {
+    return null;
+  }
+
+  const now = new Date();
+  const cutoffs = adminSessionExpiryCutoffs(now);
+  if (session.createdAt < cutoffs.createdBefore || session.lastUsedAt < cutoffs.lastUsedBefore) {
+    await prisma.adminSession.deleteMany({ where: { id: token } });
+    return null;
+  }
+
+  // Sliding renewal: avoid a write on every request by only touching stale sessions.
+  if (now.getTime() - session.lastUsedAt.getTime() > ADMIN_SESSION_TOUCH_INTERVAL_MS) {
+    await prisma.adminSession.update({
+      where: { id: token },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    sessionId: session.id,
+    id: session.adminUser.id,
+    email: session.adminUser.email,
+    role: session.adminUser.role,
+    isActive: session.adminUser.isActive,
+  };
 }
 
 export async function logoutAdmin(token: string) {
@@ -730,3 +3190,521 @@ export async function logoutAdmin(token: string) {
     where: { id: token },
   });
 }
+
+export async function listAdminSessions(adminUserId: number) {
+  return prisma.adminSession.findMany({
+    where: { adminUserId, ...activeAdminSessionWhere() },
+    orderBy: { lastUsedAt: "desc" },
+    select: {
+      id: true,
+      publicId: true,
+      ipAddress: true,
+      userAgent: true,
+      createdAt: true,
+      lastUsedAt: true,
+    },
+  });
+}
+
+export async function revokeAdminSession(adminUserId: number, publicId: string) {
+  const result = await prisma.adminSession.deleteMany({
+    where: { adminUserId, publicId },
+  });
+
+  return result.count > 0;
+}
+
+export async function revokeAllAdminSessions(adminUserId: number) {
+  const result = await prisma.adminSession.deleteMany({
+    where: { adminUserId },
+  });
+
+  return result.count;
+}
+
+export async function purgeExpiredAdminSessions() {
+  const cutoffs = adminSessionExpiryCutoffs();
+  const result = await prisma.adminSession.deleteMany({
+    where: {
+      OR: [
+        { createdAt: { lt: cutoffs.createdBefore } },
+        { lastUsedAt: { lt: cutoffs.lastUsedBefore } },
+      ],
+    },
+  });
+
+  return result.count;
+}
+
+async function getLoginFailureWindow(
+  column: "email" | "ip_address",
+  value: string,
+  since: Date,
+  beforeAttemptId: number,
+) {
+  const columnSql = Prisma.raw(`a.${column}`);
+  const successColumnSql = Prisma.raw(`s.${column}`);
+
+  // Only failures after the last successful login for this key count towards the lockout.
+  const rows = await prisma.$queryRaw<Array<{ failures: number; lastFailureAt: Date | null }>>(
+    Prisma.sql`
+      SELECT
+        COUNT(*)::int AS failures,
+        MAX(a.created_at) AS "lastFailureAt"
+      FROM login_attempts a
+      WHERE ${columnSql} = ${value}
+        AND a.outcome = 'invalid_credentials'
+        AND a.id < ${beforeAttemptId}
+        AND a.created_at >= ${since}
+        AND a.created_at > COALESCE(
+          (
+            SELECT MAX(s.created_at)
+            FROM login_attempts s
+            WHERE ${successColumnSql} = ${value} AND s.outcome = 'success'
+          ),
+          '-infinity'::timestamp
+        )
+    `,
+  );
+
+  return {
+    failures: Number(rows[0]?.failures ?? 0),
+    lastFailureAt: rows[0]?.lastFailureAt ?? null,
+  };
+}
+
+function loginRetryAt(failures: number, lastFailureAt: Date | null, maxFailures: number) {
+  if (!lastFailureAt || failures === 0) {
+    return null;
+  }
+
+  const lockoutMs = env.loginLockoutMinutes * 60 * 1000;
+  const delayMs =
+    failures >= maxFailures
+      ? lockoutMs
+      : Math.min(env.loginBackoffBaseSeconds * 1000 * 2 ** (failures - 1), lockoutMs);
+
+  return new Date(lastFailureAt.getTime() + delayMs);
+}
+
+// Attempts are counted against the ones recorded before them, so concurrent requests cannot all pass the check.
+export async function getLoginThrottle(attemptId: number, email: string, ipAddress?: string) {
+  const now = new Date();
+  const since = new Date(now.getTime() - env.loginLockoutMinutes * 60 * 1000);
+
+  const byEmail = await getLoginFailureWindow("email", normalizeEmail(email), since, attemptId);
+  const retryAts = [loginRetryAt(byEmail.failures, byEmail.lastFailureAt, env.loginMaxFailuresPerEmail)];
+
+  if (ipAddress) {
+    const byIp = await getLoginFailureWindow("ip_address", ipAddress, since, attemptId);
+    retryAts.push(loginRetryAt(byIp.failures, byIp.lastFailureAt, env.loginMaxFailuresPerIp));
+  }
+
+  const retryAt = retryAts
+    .filter((value): value is Date => value !== null && value > now)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  return retryAt ? { retryAfterSeconds: Math.ceil((retryAt.getTime() - now.getTime()) / 1000) } : null;
+}
+
+// Recorded as a failure up front, before the throttle check and scrypt run, and settled afterwards.
+export async function startLoginAttempt(email: string, context: AdminSessionContext = {}) {
+  const attempt = await prisma.loginAttempt.create({
+    data: {
+      email: normalizeEmail(email),
+      outcome: "invalid_credentials",
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+    select: { id: true },
+  });
+
+  return attempt.id;
+}
+
+export async function settleLoginAttempt(id: number, outcome: LoginAttemptOutcome) {
+  await prisma.loginAttempt.update({
+    where: { id },
+    data: { outcome },
+  });
+}
+
+export async function listLoginAttempts(filter: LoginAttemptFilter = {}) {
+  const safeLimit = Math.max(1, Math.min(filter.limit ?? 100, 500));
+
+  return prisma.loginAttempt.findMany({
+    where: {
+      email: filter.email ? normalizeEmail(filter.email) : undefined,
+      ipAddress: filter.ipAddress,
+      outcome: filter.outcome,
+    },
+    orderBy: { createdAt: "desc" },
+    take: safeLimit,
+  });
+}
+
+export async function purgeOldLoginAttempts() {
+  const cutoff = new Date(Date.now() - env.loginAttemptRetentionDays * 24 * 60 * 60 * 1000);
+  const result = await prisma.loginAttempt.deleteMany({
+    where: { createdAt: { lt: cutoff } },
+  });
+
+  return result.count;
+}
+
+// Children first: sessions are only purged once none of their events remain, and visitors
+// (which follow the sessions policy) once none of their sessions remain.
+const RETENTION_TABLES: Array<{ table: RetentionTable; sqlTable: string; timeColumn: string }> = [
+  { table: "pings", sqlTable: "pings", timeColumn: "timestamp" },
+  { table: "clicks", sqlTable: "clicks", timeColumn: "timestamp" },
+  { table: "pageViews", sqlTable: "page_views", timeColumn: "timestamp" },
+  { table: "goals", sqlTable: "goals", timeColumn: "timestamp" },
+  { table: "customEvents", sqlTable: "custom_events", timeColumn: "timestamp" },
+  { table: "sessions", sqlTable: "sessions", timeColumn: "start_time" },
+  { table: "visitors", sqlTable: "visitors", timeColumn: "last_seen_at" },
+];
+
+function retentionCandidatesSql(sqlTable: string, timeColumn: string, cutoff: Date) {
+  const table = Prisma.raw(sqlTable);
+  const column = Prisma.raw(timeColumn);
+
+  if (sqlTable === "visitors") {
+    return Prisma.sql`
+      FROM visitors t
+      WHERE t.last_seen_at < ${cutoff}
+        AND NOT EXISTS (SELECT 1 FROM sessions s WHERE s.visitor_id = t.id)
+    `;
+  }
+
+  if (sqlTable !== "sessions") {
+    return Prisma.sql`FROM ${table} t WHERE t.${column} < ${cutoff}`;
+  }
+
+  return Prisma.sql`
+    FROM sessions t
+    WHERE t.start_time < ${cutoff}
+      AND NOT EXISTS (SELECT 1 FROM page_views p WHERE p.session_id = t.id)
+      AND NOT EXISTS (SELECT 1 FROM clicks c WHERE c.session_id = t.id)
+      AND NOT EXISTS (SELECT 1 FROM pings g WHERE g.session_id = t.id)
+      AND NOT EXISTS (SELECT 1 FROM custom_events e WHERE e.session_id = t.id)
+  `;
+}
+
+export function getRetentionPolicies(now = new Date()) {
+  return RETENTION_TABLES.map(({ table, sqlTable, timeColumn }) => {
+    const retentionDays = env.retentionDays[table === "visitors" ? "sessions" : table];
+    const cutoff =
+      retentionDays > 0 ? new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000) : null;
+
+    return { table, sqlTable, timeColumn, retentionDays, cutoff };
+  });
+}
+
+export async function previewRetentionPurge() {
+  const policies = getRetentionPolicies();
+  const preview = [];
+
+  for (const policy of policies) {
+    if (!policy.cutoff) {
+      preview.push({ table: policy.table, retentionDays: null, cutoff: null, rows: 0 });
+      continue;
+    }
+
+    const rows = await prisma.$queryRaw<Array<{ rows: number }>>(
+      Prisma.sql`SELECT COUNT(*)::int AS rows ${retentionCandidatesSql(policy.sqlTable, policy.timeColumn, policy.cutoff)}`,
+    );
+
+    preview.push({
+      table: policy.table,
+      retentionDays: policy.retentionDays,
+      cutoff: policy.cutoff.toISOString(),
+      rows: Number(rows[0]?.rows ?? 0),
+    });
+  }
+
+  return preview;
+}
+
+// Deletes in small batches so tracking writes are never blocked for long. DailyStats rows
+// are deliberately left untouched, so totals survive purges.
+export async function purgeExpiredEvents() {
+  const deleted: Partial<Record<RetentionTable, number>> = {};
+
+  for (const policy of getRetentionPolicies()) {
+    if (!policy.cutoff) {
+      continue;
+    }
+
+    let total = 0;
+    for (let batch = 0; batch < env.retentionMaxBatchesPerRun; batch += 1) {
+      const count = await prisma.$executeRaw(
+        Prisma.sql`
+          DELETE FROM ${Prisma.raw(policy.sqlTable)}
+          WHERE id IN (
+            SELECT t.id
+            ${retentionCandidatesSql(policy.sqlTable, policy.timeColumn, policy.cutoff)}
+            LIMIT ${env.retentionBatchSize}
+            FOR UPDATE SKIP LOCKED
+          )
+        `,
+      );
+
+      total += count;
+      if (count < env.retentionBatchSize) {
+        break;
+      }
+    }
+
+    deleted[policy.table] = total;
+  }
+
+  return deleted;
+}
+
+// Sessions stored before IP anonymization, or under a less strict PRIVACY_IP_MODE, are brought in line
+// with the current mode. Idempotent, so it is safe to run on every start.
+export async function anonymizeStoredIps() {
+  if (env.privacyIpMode === "raw") {
+    return 0;
+  }
+
+  let total = 0;
+  for (;;) {
+    const rows = await prisma.$queryRaw<Array<{ id: string; ipAddress: string }>>(
+      Prisma.sql`
+        SELECT s.id AS id, s.ip_address AS "ipAddress"
+        FROM sessions s
+        WHERE s.ip_address IS NOT NULL
+          ${
+            env.privacyIpMode === "truncate"
+              ? Prisma.sql`AND s.ip_address_mode IS DISTINCT FROM 'truncated'`
+              : Prisma.empty
+          }
+        LIMIT ${env.retentionBatchSize}
+      `,
+    );
+
+    if (rows.length === 0) {
+      break;
+    }
+
+    // Truncating is idempotent, so rows stored before the mode was recorded are safe to redo.
+    const values = rows.map((row) => {
+      const ipAddress = env.privacyIpMode === "truncate" ? (truncateIp(row.ipAddress) ?? null) : null;
+      return Prisma.sql`(${row.id}, ${ipAddress}, ${ipAddress === null ? null : "truncated"})`;
+    });
+    await prisma.$executeRaw(
+      Prisma.sql`
+        UPDATE sessions s
+        SET ip_address = v.ip_address::text, ip_address_mode = v.ip_address_mode::ip_address_mode
+        FROM (VALUES ${Prisma.join(values)}) AS v(id, ip_address, ip_address_mode)
+        WHERE s.id = v.id
+      `,
+    );
+
+    total += rows.length;
+    if (rows.length < env.retentionBatchSize) {
+      break;
+    }
+  }
+
+  return total;
+}
+
+// Sessions store the IP in the form PRIVACY_IP_MODE produced, so the subject's address is converted
+// the same way before matching. A truncated address covers a whole /24 (or /48), so a match that
+// spans several visitors is refused instead of exporting or erasing other people's data.
+async function findDataSubjectSessionIds(
+  query: DataSubjectQuery,
+  client: DbClient = prisma,
+): Promise<string[] | { error: string }> {
+  const conditions: Prisma.SessionWhereInput[] = [];
+  if (query.sessionId) {
+    conditions.push({ id: query.sessionId });
+  }
+  if (query.ipAddress) {
+    if (!isIP(query.ipAddress)) {
+      return { error: "Invalid IP address." };
+    }
+
+    if (env.privacyIpMode === "hash") {
+      return { error: "IP addresses are not stored (PRIVACY_IP_MODE=hash). Use sessionId or visitorHash." };
+    }
+
+    const storedIp = env.privacyIpMode === "truncate" ? truncateIp(query.ipAddress) : query.ipAddress;
+    conditions.push({ ipAddress: storedIp });
+  }
+  if (query.visitorHash) {
+    conditions.push({ visitorHash: query.visitorHash });
+  }
+
+  if (conditions.length === 0) {
+    return [];
+  }
+
+  const sessions = await client.session.findMany({
+    where: { OR: conditions },
+    select: { id: true, visitorId: true, visitorHash: true },
+  });
+
+  const visitors = new Set(sessions.map((session) => session.visitorId ?? session.visitorHash ?? session.id));
+  if (query.ipAddress && visitors.size > 1) {
+    return {
+      error:
+        `The IP address matches ${visitors.size} different visitors. ` +
+        "Narrow the request with sessionId or visitorHash.",
+    };
+  }
+
+  return sessions.map((session) => session.id);
+}
+
+export async function exportDataSubject(query: DataSubjectQuery) {
+  const sessionIds = await findDataSubjectSessionIds(query);
+  if ("error" in sessionIds) {
+    return sessionIds;
+  }
+
+  const where = { sessionId: { in: sessionIds } };
+
+  const sessions = await prisma.session.findMany({
+    where: { id: { in: sessionIds } },
+    orderBy: { startTime: "asc" },
+  });
+  const pageViews = await prisma.pageView.findMany({ where, orderBy: { timestamp: "asc" } });
+  const clicks = await prisma.click.findMany({ where, orderBy: { timestamp: "asc" } });
+  const pings = await prisma.ping.findMany({ where, orderBy: { timestamp: "asc" } });
+  const goals = await prisma.goal.findMany({ where, orderBy: { timestamp: "asc" } });
+  const customEvents = await prisma.customEvent.findMany({ where, orderBy: { timestamp: "asc" } });
+
+  return { sessions, pageViews, clicks, pings, goals, customEvents };
+}
+
+const DAILY_METRIC_COLUMNS: Record<DailyMetricField, string> = {
+  sessions: "sessions",
+  pageViews: "page_views",
+  pings: "pings",
+  clicks: "clicks",
+  goals: "goals",
+};
+
+// Erases every row tied to the subject and takes the same events back out of DailyStats,
+// so aggregate totals stay consistent with what is left in the raw tables.
+export async function eraseDataSubject(query: DataSubjectQuery) {
+  return prisma.$transaction(
+    async (tx) => {
+      const sessionIds = await findDataSubjectSessionIds(query, tx);
+      if ("error" in sessionIds) {
+        return sessionIds;
+      }
+
+      if (sessionIds.length === 0) {
+        return { sessions: 0, pageViews: 0, clicks: 0, pings: 0, goals: 0, customEvents: 0 };
+      }
+
+      // Events insert with a foreign key to their session, so locking the sessions makes concurrent
+      // tracking wait for the erase instead of adding rows that would be deleted without a decrement.
+      await tx.$queryRaw(
+        Prisma.sql`SELECT id FROM sessions WHERE id IN (${Prisma.join(sessionIds)}) FOR UPDATE`,
+      );
+
+      const where = { sessionId: { in: sessionIds } };
+      const eventSelect = { siteId: true, isBot: true, timestamp: true } as const;
+
+      const sessions = await tx.session.findMany({
+        where: { id: { in: sessionIds } },
+        select: { siteId: true, countedIsBot: true, startTime: true, visitorId: true },
+      });
+      const pageViews = await tx.pageView.findMany({ where, select: eventSelect });
+      const clicks = await tx.click.findMany({ where, select: eventSelect });
+      const pings = await tx.ping.findMany({ where, select: eventSelect });
+      const goals = await tx.goal.findMany({ where, select: eventSelect });
+      // Custom events are not part of DailyStats; the session delete cascades to them.
+      const customEvents = await tx.customEvent.count({ where });
+
+      const decrements = new Map<
+        string,
+        { scope: EventScope; metric: DailyMetricField; day: Date; amount: number }
+      >();
+      const count = (metric: DailyMetricField, row: { siteId: number; isBot: boolean }, at: Date) => {
+        const day = toUtcDateOnly(at);
+        const key = `${row.siteId}:${row.isBot}:${metric}:${day.toISOString()}`;
+        const current = decrements.get(key);
+        if (current) {
+          current.amount += 1;
+        } else {
+          decrements.set(key, { scope: { siteId: row.siteId, isBot: row.isBot }, metric, day, amount: 1 });
+        }
+      };
+
+      sessions.forEach((row) => {
+        if (row.countedIsBot !== null) {
+          count("sessions", { siteId: row.siteId, isBot: row.countedIsBot }, row.startTime);
+        }
+      });
+      pageViews.forEach((row) => count("pageViews", row, row.timestamp));
+      clicks.forEach((row) => count("clicks", row, row.timestamp));
+      pings.forEach((row) => count("pings", row, row.timestamp));
+      goals.forEach((row) => count("goals", row, row.timestamp));
+
+      // Goals only null out their session on delete, so remove them explicitly first.
+      await tx.goal.deleteMany({ where });
+      await tx.session.deleteMany({ where: { id: { in: sessionIds } } });
+
+      const visitorIds = sessions.flatMap((row) => (row.visitorId === null ? [] : [row.visitorId]));
+      if (visitorIds.length > 0) {
+        await tx.visitor.deleteMany({
+          where: { id: { in: visitorIds }, sessions: { none: {} } },
+        });
+      }
+
+      for (const { scope, metric, day, amount } of decrements.values()) {
+        const column = Prisma.raw(DAILY_METRIC_COLUMNS[metric]);
+        await tx.$executeRaw(
+          Prisma.sql`
+            UPDATE daily_stats
+            SET ${column} = GREATEST(${column} - ${amount}, 0), updated_at = NOW()
+            WHERE site_id = ${scope.siteId} AND date = ${day} AND is_bot = ${scope.isBot}
+          `,
+        );
+      }
+
+      return {
+        sessions: sessions.length,
+        pageViews: pageViews.length,
+        clicks: clicks.length,
+        pings: pings.length,
+        goals: goals.length,
+        customEvents,
+      };
+    },
+    { timeout: 30_000 },
+  );
+}
+
+export async function recordAuditLog(
+  adminUserId: number | undefined,
+  action: string,
+  subject: AnyObject,
+  result?: AnyObject,
+) {
+  await prisma.auditLog.create({
+    data: {
+      adminUserId,
+      action,
+      subject: toJsonValue(subject),
+      result: result ? toJsonValue(result) : undefined,
+    },
+  });
+}
+
+export async function listAuditLogs(limit = 100, action?: string) {
+  const safeLimit = Math.max(1, Math.min(limit, 500));
+
+  return prisma.auditLog.findMany({
+    where: { action },
+    orderBy: { createdAt: "desc" },
+    take: safeLimit,
+    include: { adminUser: { select: { email: true } } },
+  });
+}
@@ -0,0 +1,45 @@
+import maxmind, { CityResponse, Reader } from "maxmind";
+import { env } from "../config/env";
+
+export type GeoLocation = {
+  country?: string;
+  region?: string;
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+};
+
+let reader: Reader<CityResponse> | undefined;
+
+export async function initGeoIp() {
+  if (!env.geoipDatabasePath) {
+    return false;
+  }
+
+  reader = await maxmind.open<CityResponse>(env.geoipDatabasePath, {
+    cache: { max: 5000 },
+    watchForUpdates: true,
+    watchForUpdatesNonPersistent: true,
+  });
+
+  return true;
+}
+
+export function lookupGeo(ipAddress?: string): GeoLocation | undefined {
+  if (!reader || !ipAddress || !maxmind.validate(ipAddress)) {
+    return undefined;
+  }
+
+  const result = reader.get(ipAddress);
+  if (!result) {
+    return undefined;
+  }
+
+  return {
+    country: result.country?.iso_code ?? result.registered_country?.iso_code,
+    region: result.subdivisions?.[0]?.names.en,
+    city: result.city?.names.en,
+    latitude: result.location?.latitude,
+    longitude: result.location?.longitude,
+  };
+}
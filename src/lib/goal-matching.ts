@@ -0,0 +1,81 @@
+export type GoalMatchTarget =
+  | { kind: "pageview"; path: string }
+  | { kind: "click"; elementTag?: string; elementId?: string; elementClass?: string }
+  | { kind: "event"; name: string };
+
+export type GoalRule = {
+  matchType: "pageview" | "click" | "event";
+  matchValue: string;
+};
+
+type SimpleSelector = {
+  tag?: string;
+  id?: string;
+  classes: string[];
+};
+
+// Path rules accept "*" as a wildcard anywhere in the path, e.g. "/checkout/*/done".
+export function matchesPathPattern(pattern: string, path: string): boolean {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`).test(path);
+}
+
+// Only compound selectors are supported ("button.buy#checkout"); clicks do not carry the DOM tree.
+export function parseSimpleSelector(selector: string): SimpleSelector | undefined {
+  const trimmed = selector.trim();
+  const match = trimmed.match(/^([a-zA-Z][\w-]*)?((?:[#.][\w-]+)*)$/);
+  if (!trimmed || !match) {
+    return undefined;
+  }
+
+  const parsed: SimpleSelector = { tag: match[1]?.toLowerCase(), classes: [] };
+  for (const part of match[2].match(/[#.][\w-]+/g) ?? []) {
+    if (part.startsWith("#")) {
+      if (parsed.id) {
+        return undefined;
+      }
+      parsed.id = part.slice(1);
+    } else {
+      parsed.classes.push(part.slice(1));
+    }
+  }
+
+  return parsed;
+}
+
+function matchesSelector(
+  selector: string,
+  target: Extract<GoalMatchTarget, { kind: "click" }>,
+): boolean {
+  const parsed = parseSimpleSelector(selector);
+  if (!parsed) {
+    return false;
+  }
+
+  if (parsed.tag && parsed.tag !== target.elementTag?.toLowerCase()) {
+    return false;
+  }
+
+  if (parsed.id && parsed.id !== target.elementId) {
+    return false;
+  }
+
+  const classes = new Set((target.elementClass ?? "").split(/\s+/).filter(Boolean));
+  return parsed.classes.every((className) => classes.has(className));
+}
+
+export function matchesGoalRule(rule: GoalRule, target: GoalMatchTarget): boolean {
+  if (rule.matchType !== target.kind) {
+    return false;
+  }
+
+  if (target.kind === "pageview") {
+    return matchesPathPattern(rule.matchValue, target.path);
+  }
+
+  if (target.kind === "click") {
+    return matchesSelector(rule.matchValue, target);
+  }
+
+  return rule.matchValue === target.name;
+}
@@ -0,0 +1,43 @@
+import { createHash } from "node:crypto";
+import { isIP } from "node:net";
+
+export type IpPrivacyMode = "raw" | "truncate" | "hash";
+export type DoNotTrackMode = "ignore" | "anonymize" | "drop";
+
+// Fields that identify a person and must never be copied into event metadata.
+const PERSONAL_FIELDS = ["ip", "ipAddress", "latitude", "longitude"];
+
+export function truncateIp(ipAddress: string): string | undefined {
+  const version = isIP(ipAddress);
+
+  if (version === 4) {
+    return ipAddress.replace(/\.\d+$/, ".0");
+  }
+
+  if (version === 6) {
+    const mappedV4 = ipAddress.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mappedV4) {
+      return truncateIp(mappedV4[1]);
+    }
+
+    // Keep the /48 routing prefix and drop everything that can point at a household.
+    const [head] = ipAddress.toLowerCase().split("::");
+    const groups = head.split(":").filter(Boolean).slice(0, 3);
+    return `${groups.join(":")}::`;
+  }
+
+  return undefined;
+}
+
+export function hashVisitor(salt: string, siteId: number, ipAddress: string, userAgent = ""): string {
+  return createHash("sha256").update(`${salt}:${siteId}:${ipAddress}:${userAgent}`).digest("hex").slice(0, 32);
+}
+
+export function withoutPersonalFields<T extends Record<string, unknown>>(payload: T): Partial<T> {
+  const copy: Record<string, unknown> = { ...payload };
+  for (const field of PERSONAL_FIELDS) {
+    delete copy[field];
+  }
+
+  return copy as Partial<T>;
+}
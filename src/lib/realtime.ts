@@ -0,0 +1,42 @@
+import { EventEmitter } from "node:events";
+
+export type LiveEvent =
+  | { type: "pageview"; siteId: number; sessionId: string; path: string; timestamp: Date; isBot: boolean }
+  | {
+      type: "click";
+      siteId: number;
+      sessionId: string;
+      path: string;
+      label?: string;
+      timestamp: Date;
+      isBot: boolean;
+    }
+  | {
+      type: "goal";
+      siteId: number;
+      sessionId?: string;
+      name: string;
+      value?: number | null;
+      path?: string;
+      timestamp: Date;
+      isBot: boolean;
+    };
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+// In-process only: with several API instances each stream sees the events its own instance recorded.
+const liveEvents = new EventEmitter();
+liveEvents.setMaxListeners(0);
+
+export function publishLiveEvent(event: LiveEvent) {
+  if (liveEvents.listenerCount("event") > 0) {
+    liveEvents.emit("event", event);
+  }
+}
+
+export function subscribeLiveEvents(listener: LiveEventListener): () => void {
+  liveEvents.on("event", listener);
+  return () => {
+    liveEvents.off("event", listener);
+  };
+}
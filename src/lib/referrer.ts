@@ -0,0 +1,141 @@
+export type TrafficSource = "direct" | "search" | "social" | "email" | "referral";
+
+export type Attribution = {
+  referrer?: string;
+  referrerHost?: string;
+  referrerSource: TrafficSource;
+  referrerName?: string;
+  landingPage?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmTerm?: string;
+  utmContent?: string;
+};
+
+type KnownReferrer = {
+  source: Exclude<TrafficSource, "direct" | "referral">;
+  name: string;
+};
+
+// Matched against the referrer host and each of its parent domains ("m.facebook.com" -> "facebook.com").
+const KNOWN_REFERRERS: Record<string, KnownReferrer> = {
+  "google.com": { source: "search", name: "Google" },
+  "bing.com": { source: "search", name: "Bing" },
+  "duckduckgo.com": { source: "search", name: "DuckDuckGo" },
+  "yahoo.com": { source: "search", name: "Yahoo" },
+  "yandex.ru": { source: "search", name: "Yandex" },
+  "yandex.com": { source: "search", name: "Yandex" },
+  "baidu.com": { source: "search", name: "Baidu" },
+  "ecosia.org": { source: "search", name: "Ecosia" },
+  "search.brave.com": { source: "search", name: "Brave" },
+  "facebook.com": { source: "social", name: "Facebook" },
+  "fb.me": { source: "social", name: "Facebook" },
+  "instagram.com": { source: "social", name: "Instagram" },
+  "l.instagram.com": { source: "social", name: "Instagram" },
+  "twitter.com": { source: "social", name: "X" },
+  "x.com": { source: "social", name: "X" },
+  "t.co": { source: "social", name: "X" },
+  "linkedin.com": { source: "social", name: "LinkedIn" },
+  "lnkd.in": { source: "social", name: "LinkedIn" },
+  "reddit.com": { source: "social", name: "Reddit" },
+  "youtube.com": { source: "social", name: "YouTube" },
+  "tiktok.com": { source: "social", name: "TikTok" },
+  "pinterest.com": { source: "social", name: "Pinterest" },
+  "news.ycombinator.com": { source: "social", name: "Hacker News" },
+  "github.com": { source: "social", name: "GitHub" },
+  "wa.me": { source: "social", name: "WhatsApp" },
+  "web.whatsapp.com": { source: "social", name: "WhatsApp" },
+  "t.me": { source: "social", name: "Telegram" },
+  "mail.google.com": { source: "email", name: "Gmail" },
+  "outlook.live.com": { source: "email", name: "Outlook" },
+  "outlook.office.com": { source: "email", name: "Outlook" },
+  "mail.yahoo.com": { source: "email", name: "Yahoo Mail" },
+};
+
+const MEDIUM_SOURCES: Array<{ pattern: RegExp; source: Exclude<TrafficSource, "direct"> }> = [
+  { pattern: /^(e-?mail|newsletter)$/i, source: "email" },
+  { pattern: /^(social|social-network|social-media|sm)$/i, source: "social" },
+  { pattern: /^(organic|cpc|ppc|paidsearch|paid-search)$/i, source: "search" },
+  { pattern: /^(referral|affiliate)$/i, source: "referral" },
+];
+
+function parseUrl(value?: string): URL | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return new URL(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^www\./, "");
+}
+
+function lookupKnownReferrer(host: string): KnownReferrer | undefined {
+  const labels = host.split(".");
+  for (let index = 0; index < labels.length - 1; index += 1) {
+    const known = KNOWN_REFERRERS[labels.slice(index).join(".")];
+    if (known) {
+      return known;
+    }
+  }
+
+  // Country search domains such as google.com.br or google.de.
+  const search = host.match(/(?:^|\.)(google|bing|yahoo|yandex)\.(?:com?\.)?[a-z]{2}$/);
+  if (search) {
+    return KNOWN_REFERRERS[`${search[1]}.com`];
+  }
+
+  return undefined;
+}
+
+function utmParam(url: URL | undefined, name: string): string | undefined {
+  const value = url?.searchParams.get(name)?.trim();
+  return value ? value.slice(0, 200) : undefined;
+}
+
+// The landing URL carries the UTM tags; the referrer says which site sent the visitor.
+export function resolveAttribution(referrerValue?: string, landingValue?: string): Attribution {
+  const landing = parseUrl(landingValue);
+  const referrerUrl = parseUrl(referrerValue);
+  const referrerHost = referrerUrl ? normalizeHost(referrerUrl.hostname) : undefined;
+  const landingHost = landing ? normalizeHost(landing.hostname) : undefined;
+
+  const utm = {
+    utmSource: utmParam(landing, "utm_source"),
+    utmMedium: utmParam(landing, "utm_medium"),
+    utmCampaign: utmParam(landing, "utm_campaign"),
+    utmTerm: utmParam(landing, "utm_term"),
+    utmContent: utmParam(landing, "utm_content"),
+  };
+
+  const landingPage = landing?.pathname;
+
+  // Navigation inside the site itself is not a traffic source.
+  const external = referrerHost && referrerHost !== landingHost ? referrerHost : undefined;
+  const known = external ? lookupKnownReferrer(external) : undefined;
+  const medium = utm.utmMedium ? MEDIUM_SOURCES.find((entry) => entry.pattern.test(utm.utmMedium!)) : undefined;
+
+  let referrerSource: TrafficSource = "direct";
+  if (known) {
+    referrerSource = known.source;
+  } else if (medium) {
+    referrerSource = medium.source;
+  } else if (external) {
+    referrerSource = "referral";
+  }
+
+  return {
+    referrer: external ? `${referrerUrl!.origin}${referrerUrl!.pathname}` : undefined,
+    referrerHost: external,
+    referrerSource,
+    referrerName: known?.name ?? external ?? utm.utmSource,
+    landingPage,
+    ...utm,
+  };
+}
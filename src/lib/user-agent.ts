@@ -0,0 +1,107 @@
+export type DeviceType = "desktop" | "mobile" | "tablet" | "bot";
+
+export type ParsedUserAgent = {
+  browser?: string;
+  browserVersion?: string;
+  os?: string;
+  osVersion?: string;
+  deviceType: DeviceType;
+  isBot: boolean;
+};
+
+type Matcher = {
+  name: string;
+  pattern: RegExp;
+};
+
+// "bot" only counts as a whole word or right before a version/suffix separator ("Googlebot/2.1",
+// "AdsBot-Google", "PetalBot;"), so device names such as "CUBOT P30" are not flagged.
+const BOT_PATTERN =
+  /\bbot\b|bot[\/;-]|\+https?:\/\/|crawl|spider|slurp|facebookexternalhit|embedly|preview|whatsapp|headlesschrome|lighthouse|pingdom|uptime|monitor|curl\/|wget\/|python-requests|python-urllib|axios\/|node-fetch|go-http-client|java\/|okhttp|httpclient/i;
+
+// Order matters: most Chromium-based browsers also advertise "Chrome" and "Safari".
+const BROWSERS: Matcher[] = [
+  { name: "Edge", pattern: /(?:Edg|EdgA|EdgiOS|Edge)\/([\d.]+)/ },
+  { name: "Opera", pattern: /(?:OPR|Opera)\/([\d.]+)/ },
+  { name: "Samsung Internet", pattern: /SamsungBrowser\/([\d.]+)/ },
+  { name: "Firefox", pattern: /(?:Firefox|FxiOS)\/([\d.]+)/ },
+  { name: "Chrome", pattern: /(?:Chrome|CriOS)\/([\d.]+)/ },
+  { name: "Safari", pattern: /Version\/([\d.]+).*Safari\// },
+  { name: "Internet Explorer", pattern: /(?:MSIE |Trident\/.*rv:)([\d.]+)/ },
+];
+
+const WINDOWS_VERSIONS: Record<string, string> = {
+  "10.0": "10",
+  "6.3": "8.1",
+  "6.2": "8",
+  "6.1": "7",
+  "6.0": "Vista",
+  "5.1": "XP",
+};
+
+function majorMinor(version: string): string {
+  return version.split(".").slice(0, 2).join(".");
+}
+
+function parseOs(userAgent: string): Pick<ParsedUserAgent, "os" | "osVersion"> {
+  const windows = userAgent.match(/Windows NT ([\d.]+)/);
+  if (windows) {
+    return { os: "Windows", osVersion: WINDOWS_VERSIONS[windows[1]] ?? windows[1] };
+  }
+
+  const ios = userAgent.match(/(?:iPhone|iPad|iPod).*? OS ([\d_]+)/);
+  if (ios) {
+    return { os: "iOS", osVersion: ios[1].replace(/_/g, ".") };
+  }
+
+  const android = userAgent.match(/Android ([\d.]+)/);
+  if (android) {
+    return { os: "Android", osVersion: android[1] };
+  }
+
+  if (/Android/.test(userAgent)) {
+    return { os: "Android" };
+  }
+
+  const mac = userAgent.match(/Mac OS X ([\d_.]+)/);
+  if (mac) {
+    return { os: "macOS", osVersion: mac[1].replace(/_/g, ".") };
+  }
+
+  if (/CrOS/.test(userAgent)) {
+    return { os: "Chrome OS" };
+  }
+
+  if (/Linux/.test(userAgent)) {
+    return { os: "Linux" };
+  }
+
+  return {};
+}
+
+function parseDeviceType(userAgent: string): Exclude<DeviceType, "bot"> {
+  if (/iPad|Tablet|PlayBook|Silk/i.test(userAgent) || (/Android/i.test(userAgent) && !/Mobile/i.test(userAgent))) {
+    return "tablet";
+  }
+
+  if (/Mobi|iPhone|iPod|Android|Windows Phone/i.test(userAgent)) {
+    return "mobile";
+  }
+
+  return "desktop";
+}
+
+export function parseUserAgent(userAgent: string): ParsedUserAgent {
+  const isBot = BOT_PATTERN.test(userAgent);
+  const browser = BROWSERS.map((matcher) => ({ matcher, match: userAgent.match(matcher.pattern) })).find(
+    (candidate) => candidate.match,
+  );
+
+  return {
+    browser: browser?.matcher.name,
+    browserVersion: browser?.match ? majorMinor(browser.match[1]) : undefined,
+    ...parseOs(userAgent),
+    deviceType: isBot ? "bot" : parseDeviceType(userAgent),
+    isBot,
+  };
+}
@@ -1,15 +1,21 @@
 import "dotenv/config";
 import { buildApp } from "./server/app";
 import { env } from "./config/env";
+import { initBotDetection } from "./lib/bot-detection";
 import { initDb } from "./lib/db";
+import { initGeoIp } from "./lib/geoip";
 import { registerRoutes } from "./routes";
+import { startBackgroundJobs } from "./server/jobs";
 
 async function start() {
   await initDb();
+  await initGeoIp();
+  await initBotDetection();
 
   const app = buildApp();
 
   await registerRoutes(app);
+  startBackgroundJobs(app);
 
   try {
     await app.listen({ host: env.host, port: env.port });
@@ -0,0 +1,203 @@
+import { AdminRole } from "@prisma/client";
+import { FastifyInstance } from "fastify";
+import {
+  countActiveOwners,
+  createAdminUser,
+  findAdminUserByEmail,
+  getAdminUser,
+  listAdminUsers,
+  resetAdminPassword,
+  setAdminPassword,
+  updateAdminUser,
+  verifyAdminPassword,
+} from "../lib/db";
+import { requireAdmin, requireRole } from "../server/auth";
+import { parseId } from "../server/request";
+import { serializeTimestamps } from "../server/serialize";
+
+type AdminUserParams = {
+  id: string;
+};
+
+type CreateAdminUserBody = {
+  email?: string;
+  password?: string;
+  role?: string;
+};
+
+type UpdateAdminUserBody = {
+  role?: string;
+  isActive?: boolean;
+};
+
+type ChangePasswordBody = {
+  currentPassword?: string;
+  newPassword?: string;
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function parseRole(value?: string): AdminRole | null {
+  if (!value) {
+    return null;
+  }
+
+  const allowed = new Set<AdminRole>(["owner", "analyst", "viewer"]);
+  return allowed.has(value as AdminRole) ? (value as AdminRole) : null;
+}
+
+function serializeAdminUser(adminUser: {
+  id: number;
+  email: string;
+  role: AdminRole;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: adminUser.id,
+    email: adminUser.email,
+    role: adminUser.role,
+    isActive: adminUser.isActive,
+    ...serializeTimestamps(adminUser),
+  };
+}
+
+export async function adminUsersRoutes(app: FastifyInstance) {
+  const requireOwner = requireRole("owner");
+
+  app.get("/api/admin/users", { preHandler: requireOwner }, async () => {
+    const users = await listAdminUsers();
+    return { users: users.map(serializeAdminUser) };
+  });
+
+  app.post<{ Body: CreateAdminUserBody }>(
+    "/api/admin/users",
+    { preHandler: requireOwner },
+    async (request, reply) => {
+      const email = request.body?.email?.trim();
+      const password = request.body?.password;
+      const role = request.body?.role ? parseRole(request.body.role) : "viewer";
+
+      if (!email || !password) {
+        reply.status(400);
+        return { error: "Email e senha sao obrigatorios." };
+      }
+
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        reply.status(400);
+        return { error: `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.` };
+      }
+
+      if (!role) {
+        reply.status(400);
+        return { error: "Papel invalido. Use owner, analyst ou viewer." };
+      }
+
+      if (await findAdminUserByEmail(email)) {
+        reply.status(409);
+        return { error: "Ja existe um usuario com este email." };
+      }
+
+      const user = await createAdminUser({ email, password, role });
+      reply.status(201);
+      return { user: serializeAdminUser(user) };
+    },
+  );
+
+  app.post<{ Body: ChangePasswordBody }>(
+    "/api/admin/users/me/password",
+    { preHandler: requireAdmin },
+    async (request, reply) => {
+      const admin = request.admin!;
+      const currentPassword = request.body?.currentPassword;
+      const newPassword = request.body?.newPassword;
+
+      if (!currentPassword || !newPassword) {
+        reply.status(400);
+        return { error: "Senha atual e nova senha sao obrigatorias." };
+      }
+
+      if (newPassword.length < MIN_PASSWORD_LENGTH) {
+        reply.status(400);
+        return { error: `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.` };
+      }
+
+      if (!(await verifyAdminPassword(admin.id, currentPassword))) {
+        reply.status(401);
+        return { error: "Senha atual invalida." };
+      }
+
+      // Keep the caller logged in; every other session must sign in again.
+      await setAdminPassword(admin.id, newPassword, admin.sessionId);
+      return { success: true };
+    },
+  );
+
+  app.patch<{ Params: AdminUserParams; Body: UpdateAdminUserBody }>(
+    "/api/admin/users/:id",
+    { preHandler: requireOwner },
+    async (request, reply) => {
+      const id = parseId(request.params.id);
+      if (!id) {
+        reply.status(400);
+        return { error: "Id de usuario invalido." };
+      }
+
+      const role = request.body?.role === undefined ? undefined : parseRole(request.body.role);
+      if (role === null) {
+        reply.status(400);
+        return { error: "Papel invalido. Use owner, analyst ou viewer." };
+      }
+
+      const isActive = request.body?.isActive;
+      if (isActive !== undefined && typeof isActive !== "boolean") {
+        reply.status(400);
+        return { error: "isActive deve ser booleano." };
+      }
+
+      const existing = await getAdminUser(id);
+      if (!existing) {
+        reply.status(404);
+        return { error: "Usuario nao encontrado." };
+      }
+
+      if (id === request.admin!.id && isActive === false) {
+        reply.status(400);
+        return { error: "Voce nao pode desativar o proprio usuario." };
+      }
+
+      const losesOwner =
+        existing.role === "owner" &&
+        existing.isActive &&
+        ((role !== undefined && role !== "owner") || isActive === false);
+      if (losesOwner && (await countActiveOwners(id)) === 0) {
+        reply.status(409);
+        return { error: "Deve existir pelo menos um owner ativo." };
+      }
+
+      const user = await updateAdminUser(id, { role, isActive });
+      return { user: serializeAdminUser(user) };
+    },
+  );
+
+  app.post<{ Params: AdminUserParams }>(
+    "/api/admin/users/:id/reset-password",
+    { preHandler: requireOwner },
+    async (request, reply) => {
+      const id = parseId(request.params.id);
+      if (!id) {
+        reply.status(400);
+        return { error: "Id de usuario invalido." };
+      }
+
+      if (!(await getAdminUser(id))) {
+        reply.status(404);
+        return { error: "Usuario nao encontrado." };
+      }
+
+      const temporaryPassword = await resetAdminPassword(id);
+      return { temporaryPassword };
+    },
+  );
+}
@@ -1,6 +1,36 @@
 import { randomUUID } from "node:crypto";
+import { LoginAttemptOutcome } from "@prisma/client";
 import { FastifyInstance } from "fastify";
-import { createAdminSession, logoutAdmin, verifyAdminCredentials } from "../lib/db";
+import {
+  createAdminSession,
+  getLoginThrottle,
+  listAdminSessions,
+  listLoginAttempts,
+  logoutAdmin,
+  revokeAdminSession,
+  revokeAllAdminSessions,
+  settleLoginAttempt,
+  startLoginAttempt,
+  verifyAdminCredentials,
+} from "../lib/db";
+import { getBearerToken, requireAdmin, requireRole } from "../server/auth";
+import { getClientIp, headerString } from "../server/request";
+
+type LoginAttemptsQuery = {
+  email?: string;
+  ip?: string;
+  outcome?: string;
+  limit?: string;
+};
+
+function parseOutcome(value?: string): LoginAttemptOutcome | null {
+  if (!value) {
+    return null;
+  }
+
+  const allowed = new Set<LoginAttemptOutcome>(["success", "invalid_credentials", "throttled"]);
+  return allowed.has(value as LoginAttemptOutcome) ? (value as LoginAttemptOutcome) : null;
+}
 
 export async function authRoutes(app: FastifyInstance) {
   app.post<{ Body: { email?: string; password?: string } }>("/api/auth/login", async (request, reply) => {
@@ -12,31 +42,117 @@ export async function authRoutes(app: FastifyInstance) {
       return { error: "Email e senha sao obrigatorios." };
     }
 
+    const context = {
+      ipAddress: getClientIp(request),
+      userAgent: headerString(request.headers["user-agent"]),
+    };
+
+    // Count the attempt and check the throttle before running scrypt so blocked clients cost us nothing.
+    const attemptId = await startLoginAttempt(email, context);
+    const throttle = await getLoginThrottle(attemptId, email, context.ipAddress);
+    if (throttle) {
+      await settleLoginAttempt(attemptId, "throttled");
+      reply.header("Retry-After", String(throttle.retryAfterSeconds));
+      reply.status(429);
+      return {
+        error: "Muitas tentativas de login. Tente novamente mais tarde.",
+        retryAfter: throttle.retryAfterSeconds,
+      };
+    }
+
     const admin = await verifyAdminCredentials(email, password);
     if (!admin) {
       reply.status(401);
       return { error: "Credenciais invalidas." };
     }
 
+    await settleLoginAttempt(attemptId, "success");
+
     const token = randomUUID();
-    await createAdminSession(token, admin.id);
+    await createAdminSession(token, admin.id, context);
 
     return {
       token,
       user: {
         id: admin.id,
         email: admin.email,
+        role: admin.role,
       },
     };
   });
 
   app.post("/api/auth/logout", async (request) => {
-    const authHeader = request.headers.authorization;
-    if (authHeader?.startsWith("Bearer ")) {
-      const token = authHeader.split(" ")[1];
+    const token = getBearerToken(request);
+    if (token) {
       await logoutAdmin(token);
     }
 
     return { success: true };
   });
+
+  app.get<{ Querystring: LoginAttemptsQuery }>(
+    "/api/auth/login-attempts",
+    { preHandler: requireRole("owner") },
+    async (request, reply) => {
+      const outcome = parseOutcome(request.query.outcome);
+      if (request.query.outcome && !outcome) {
+        reply.status(400);
+        return { error: "Resultado invalido. Use success, invalid_credentials ou throttled." };
+      }
+
+      const limit = request.query.limit ? Number(request.query.limit) : undefined;
+      const attempts = await listLoginAttempts({
+        email: request.query.email,
+        ipAddress: request.query.ip,
+        outcome: outcome ?? undefined,
+        limit: limit !== undefined && Number.isFinite(limit) ? Math.trunc(limit) : undefined,
+      });
+
+      return {
+        attempts: attempts.map((attempt) => ({
+          id: attempt.id,
+          email: attempt.email,
+          ipAddress: attempt.ipAddress,
+          userAgent: attempt.userAgent,
+          outcome: attempt.outcome,
+          createdAt: attempt.createdAt.toISOString(),
+        })),
+      };
+    },
+  );
+
+  app.get("/api/auth/sessions", { preHandler: requireAdmin }, async (request) => {
+    const admin = request.admin!;
+    const sessions = await listAdminSessions(admin.id);
+
+    return {
+      sessions: sessions.map((session) => ({
+        id: session.publicId,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt.toISOString(),
+        lastUsedAt: session.lastUsedAt.toISOString(),
+        current: session.id === admin.sessionId,
+      })),
+    };
+  });
+
+  app.delete<{ Params: { id: string } }>(
+    "/api/auth/sessions/:id",
+    { preHandler: requireAdmin },
+    async (request, reply) => {
+      const revoked = await revokeAdminSession(request.admin!.id, request.params.id);
+      if (!revoked) {
+        reply.status(404);
+        return { error: "Sessao nao encontrada." };
+      }
+
+      return { success: true };
+    },
+  );
+
+  app.delete("/api/auth/sessions", { preHandler: requireAdmin }, async (request) => {
+    const revoked = await revokeAllAdminSessions(request.admin!.id);
+    return { success: true, revoked };
+  });
 }
@@ -0,0 +1,200 @@
+import { FastifyInstance } from "fastify";
+import {
+  ClickCategoryRule,
+  createClickCategory,
+  deleteClickCategory,
+  findClickCategoryByName,
+  getClickCategory,
+  listClickCategories,
+  updateClickCategory,
+} from "../lib/db";
+import { parseSimpleSelector } from "../lib/goal-matching";
+import { requireAdmin, requireEditor } from "../server/auth";
+import { parseId } from "../server/request";
+import { serializeTimestamps } from "../server/serialize";
+import { resolveSiteFilter } from "../server/site";
+
+type ClickCategoryParams = {
+  id: string;
+};
+
+type ClickCategoryQuery = {
+  site?: string;
+};
+
+type ClickCategoryBody = {
+  site?: string;
+  name?: string;
+  rules?: unknown;
+};
+
+const MAX_RULES = 20;
+const CATEGORY_NAME_PATTERN = /^[a-z0-9-]{1,50}$/;
+
+function parseRules(value: unknown): ClickCategoryRule[] | { error: string } {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_RULES) {
+    return { error: `A categoria deve ter entre 1 e ${MAX_RULES} regras.` };
+  }
+
+  const rules: ClickCategoryRule[] = [];
+  for (const item of value) {
+    const rule = item as Record<string, unknown> | null;
+    const type = rule?.type;
+    const ruleValue = typeof rule?.value === "string" ? rule.value.trim() : "";
+
+    if ((type !== "kind" && type !== "selector" && type !== "path") || !ruleValue) {
+      return { error: "Cada regra precisa de type (kind, selector ou path) e value." };
+    }
+
+    if (type === "selector" && !parseSimpleSelector(ruleValue)) {
+      return { error: "Seletor invalido. Use tag, #id ou .classe." };
+    }
+
+    if (type === "path" && !ruleValue.startsWith("/")) {
+      return { error: "Regras de path devem comecar com /." };
+    }
+
+    rules.push({ type, value: ruleValue });
+  }
+
+  return rules;
+}
+
+function serializeClickCategory(category: {
+  id: number;
+  siteId: number | null;
+  name: string;
+  rules: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: category.id,
+    siteId: category.siteId,
+    name: category.name,
+    builtIn: category.siteId === null,
+    rules: category.rules as ClickCategoryRule[],
+    ...serializeTimestamps(category),
+  };
+}
+
+export async function clickCategoriesRoutes(app: FastifyInstance) {
+  app.get<{ Querystring: ClickCategoryQuery }>(
+    "/api/click-categories",
+    { preHandler: requireAdmin },
+    async (request, reply) => {
+      const site = await resolveSiteFilter(request.query.site);
+      if ("error" in site) {
+        reply.status(400);
+        return { error: site.error };
+      }
+
+      const categories = await listClickCategories(site.siteId);
+      return { categories: categories.map(serializeClickCategory) };
+    },
+  );
+
+  app.post<{ Body: ClickCategoryBody }>(
+    "/api/click-categories",
+    { preHandler: requireEditor },
+    async (request, reply) => {
+      const name = request.body?.name?.trim().toLowerCase();
+      if (!name || !CATEGORY_NAME_PATTERN.test(name)) {
+        reply.status(400);
+        return { error: "Nome invalido. Use letras minusculas, numeros e hifens." };
+      }
+
+      const site = request.body?.site?.trim() ? await resolveSiteFilter(request.body.site) : undefined;
+      if (!site || "error" in site || site.siteId === undefined) {
+        reply.status(400);
+        return { error: "Site invalido ou ausente." };
+      }
+
+      const rules = parseRules(request.body?.rules);
+      if ("error" in rules) {
+        reply.status(400);
+        return { error: rules.error };
+      }
+
+      if (await findClickCategoryByName(site.siteId, name)) {
+        reply.status(409);
+        return { error: "Ja existe uma categoria com este nome neste site." };
+      }
+
+      const category = await createClickCategory({ siteId: site.siteId, name, rules });
+      reply.status(201);
+      return { category: serializeClickCategory(category) };
+    },
+  );
+
+  app.patch<{ Params: ClickCategoryParams; Body: ClickCategoryBody }>(
+    "/api/click-categories/:id",
+    { preHandler: requireEditor },
+    async (request, reply) => {
+      const id = parseId(request.params.id);
+      if (!id) {
+        reply.status(400);
+        return { error: "Id de categoria invalido." };
+      }
+
+      const existing = await getClickCategory(id);
+      if (!existing) {
+        reply.status(404);
+        return { error: "Categoria nao encontrada." };
+      }
+
+      // Shared categories drive top-links and top-setup-items for every site; a site customizes
+      // them by creating its own category with the same name.
+      if (existing.siteId === null) {
+        reply.status(400);
+        return { error: "Categorias padrao nao podem ser alteradas." };
+      }
+
+      const name = request.body?.name === undefined ? undefined : request.body.name.trim().toLowerCase();
+      if (name !== undefined && !CATEGORY_NAME_PATTERN.test(name)) {
+        reply.status(400);
+        return { error: "Nome invalido. Use letras minusculas, numeros e hifens." };
+      }
+
+      const rules = request.body?.rules === undefined ? undefined : parseRules(request.body.rules);
+      if (rules && "error" in rules) {
+        reply.status(400);
+        return { error: rules.error };
+      }
+
+      if (name && name !== existing.name && (await findClickCategoryByName(existing.siteId, name))) {
+        reply.status(409);
+        return { error: "Ja existe uma categoria com este nome neste site." };
+      }
+
+      const category = await updateClickCategory(id, { name, rules });
+      return { category: serializeClickCategory(category) };
+    },
+  );
+
+  app.delete<{ Params: ClickCategoryParams }>(
+    "/api/click-categories/:id",
+    { preHandler: requireEditor },
+    async (request, reply) => {
+      const id = parseId(request.params.id);
+      if (!id) {
+        reply.status(400);
+        return { error: "Id de categoria invalido." };
+      }
+
+      const existing = await getClickCategory(id);
+      if (!existing) {
+        reply.status(404);
+        return { error: "Categoria nao encontrada." };
+      }
+
+      if (existing.siteId === null) {
+        reply.status(400);
+        return { error: "Categorias padrao nao podem ser excluidas." };
+      }
+
+      await deleteClickCategory(id);
+      return { success: true };
+    },
+  );
+}
@@ -0,0 +1,111 @@
+import { FastifyInstance } from "fastify";
+import { DataSubjectQuery, eraseDataSubject, exportDataSubject, listAuditLogs, recordAuditLog } from "../lib/db";
+import { requireRole } from "../server/auth";
+
+type DataSubjectQuerystring = {
+  sessionId?: string;
+  ip?: string;
+  visitorHash?: string;
+};
+
+type AuditLogQuery = {
+  action?: string;
+  limit?: string;
+};
+
+function parseDataSubjectQuery(query: DataSubjectQuerystring): DataSubjectQuery | { error: string } {
+  const subject = {
+    sessionId: query.sessionId?.trim() || undefined,
+    ipAddress: query.ip?.trim() || undefined,
+    visitorHash: query.visitorHash?.trim() || undefined,
+  };
+
+  if (!subject.sessionId && !subject.ipAddress && !subject.visitorHash) {
+    return { error: "Provide sessionId, ip or visitorHash." };
+  }
+
+  return subject;
+}
+
+// Audit rows outlive the erased data, so they never keep the subject's IP address.
+function auditSubject(subject: DataSubjectQuery) {
+  return { ...subject, ipAddress: subject.ipAddress ? "[redacted]" : undefined };
+}
+
+export async function dataSubjectsRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", requireRole("owner"));
+
+  app.get<{ Querystring: DataSubjectQuerystring }>("/api/admin/data-subjects/export", async (request, reply) => {
+    try {
+      const subject = parseDataSubjectQuery(request.query);
+      if ("error" in subject) {
+        reply.status(400);
+        return { error: subject.error };
+      }
+
+      const data = await exportDataSubject(subject);
+      if ("error" in data) {
+        reply.status(400);
+        return { error: data.error };
+      }
+
+      await recordAuditLog(request.admin?.id, "data-subject.export", auditSubject(subject), {
+        sessions: data.sessions.length,
+        pageViews: data.pageViews.length,
+        clicks: data.clicks.length,
+        pings: data.pings.length,
+        goals: data.goals.length,
+        customEvents: data.customEvents.length,
+      });
+
+      return { subject, exportedAt: new Date().toISOString(), ...data };
+    } catch (error) {
+      request.log.error({ err: error }, "Error exporting data subject");
+      reply.status(500);
+      return { error: "Failed to export data subject" };
+    }
+  });
+
+  app.delete<{ Querystring: DataSubjectQuerystring }>("/api/admin/data-subjects", async (request, reply) => {
+    try {
+      const subject = parseDataSubjectQuery(request.query);
+      if ("error" in subject) {
+        reply.status(400);
+        return { error: subject.error };
+      }
+
+      const deleted = await eraseDataSubject(subject);
+      if ("error" in deleted) {
+        reply.status(400);
+        return { error: deleted.error };
+      }
+
+      await recordAuditLog(request.admin?.id, "data-subject.erase", auditSubject(subject), deleted);
+
+      return { success: true, deleted };
+    } catch (error) {
+      request.log.error({ err: error }, "Error erasing data subject");
+      reply.status(500);
+      return { error: "Failed to erase data subject" };
+    }
+  });
+
+  app.get<{ Querystring: AuditLogQuery }>("/api/admin/audit-logs", async (request) => {
+    const limit = request.query.limit ? Number(request.query.limit) : undefined;
+    const logs = await listAuditLogs(
+      limit !== undefined && Number.isFinite(limit) ? Math.trunc(limit) : undefined,
+      request.query.action || undefined,
+    );
+
+    return {
+      logs: logs.map((log) => ({
+        id: log.id,
+        action: log.action,
+        adminEmail: log.adminUser?.email ?? null,
+        subject: log.subject,
+        result: log.result,
+        createdAt: log.createdAt.toISOString(),
+      })),
+    };
+  });
+}
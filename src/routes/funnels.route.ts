@@ -0,0 +1,187 @@
+import { FastifyInstance } from "fastify";
+import { createFunnel, deleteFunnel, FunnelStep, getFunnel, listFunnels, updateFunnel } from "../lib/db";
+import { requireAdmin, requireEditor } from "../server/auth";
+import { parseId } from "../server/request";
+import { serializeTimestamps } from "../server/serialize";
+import { resolveSiteFilter } from "../server/site";
+
+type FunnelParams = {
+  id: string;
+};
+
+type FunnelQuery = {
+  site?: string;
+};
+
+type FunnelBody = {
+  site?: string;
+  name?: string;
+  steps?: unknown;
+  windowMinutes?: number | null;
+};
+
+const MAX_FUNNEL_STEPS = 10;
+
+function parseSteps(value: unknown): FunnelStep[] | { error: string } {
+  if (!Array.isArray(value) || value.length < 2 || value.length > MAX_FUNNEL_STEPS) {
+    return { error: `O funil deve ter entre 2 e ${MAX_FUNNEL_STEPS} etapas.` };
+  }
+
+  const steps: FunnelStep[] = [];
+  for (const item of value) {
+    const step = item as Record<string, unknown> | null;
+    const type = step?.type;
+    const match = typeof step?.match === "string" ? step.match.trim() : "";
+
+    if ((type !== "page" && type !== "goal") || !match) {
+      return { error: "Cada etapa precisa de type (page ou goal) e match." };
+    }
+
+    const label = typeof step?.label === "string" && step.label.trim() ? step.label.trim() : undefined;
+    steps.push({ type, match, label });
+  }
+
+  return steps;
+}
+
+function parseWindowMinutes(value: unknown): number | null | undefined | { error: string } {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    return { error: "windowMinutes deve ser um inteiro positivo." };
+  }
+
+  return value;
+}
+
+function serializeFunnel(funnel: {
+  id: number;
+  siteId: number;
+  name: string;
+  steps: unknown;
+  windowMinutes: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: funnel.id,
+    siteId: funnel.siteId,
+    name: funnel.name,
+    steps: funnel.steps as FunnelStep[],
+    windowMinutes: funnel.windowMinutes,
+    ...serializeTimestamps(funnel),
+  };
+}
+
+export async function funnelsRoutes(app: FastifyInstance) {
+  app.get<{ Querystring: FunnelQuery }>("/api/funnels", { preHandler: requireAdmin }, async (request, reply) => {
+    const site = await resolveSiteFilter(request.query.site);
+    if ("error" in site) {
+      reply.status(400);
+      return { error: site.error };
+    }
+
+    const funnels = await listFunnels(site.siteId);
+    return { funnels: funnels.map(serializeFunnel) };
+  });
+
+  app.get<{ Params: FunnelParams }>("/api/funnels/:id", { preHandler: requireAdmin }, async (request, reply) => {
+    const id = parseId(request.params.id);
+    if (!id) {
+      reply.status(400);
+      return { error: "Id de funil invalido." };
+    }
+
+    const funnel = await getFunnel(id);
+    if (!funnel) {
+      reply.status(404);
+      return { error: "Funil nao encontrado." };
+    }
+
+    return { funnel: serializeFunnel(funnel) };
+  });
+
+  app.post<{ Body: FunnelBody }>("/api/funnels", { preHandler: requireEditor }, async (request, reply) => {
+    const name = request.body?.name?.trim();
+    if (!name) {
+      reply.status(400);
+      return { error: "Nome do funil e obrigatorio." };
+    }
+
+    const site = request.body?.site?.trim() ? await resolveSiteFilter(request.body.site) : undefined;
+    if (!site || "error" in site || site.siteId === undefined) {
+      reply.status(400);
+      return { error: "Site invalido ou ausente." };
+    }
+
+    const steps = parseSteps(request.body?.steps);
+    if ("error" in steps) {
+      reply.status(400);
+      return { error: steps.error };
+    }
+
+    const windowMinutes = parseWindowMinutes(request.body?.windowMinutes);
+    if (windowMinutes && typeof windowMinutes === "object") {
+      reply.status(400);
+      return { error: windowMinutes.error };
+    }
+
+    const funnel = await createFunnel({ siteId: site.siteId, name, steps, windowMinutes });
+    reply.status(201);
+    return { funnel: serializeFunnel(funnel) };
+  });
+
+  app.patch<{ Params: FunnelParams; Body: FunnelBody }>(
+    "/api/funnels/:id",
+    { preHandler: requireEditor },
+    async (request, reply) => {
+      const id = parseId(request.params.id);
+      if (!id) {
+        reply.status(400);
+        return { error: "Id de funil invalido." };
+      }
+
+      const steps = request.body?.steps === undefined ? undefined : parseSteps(request.body.steps);
+      if (steps && "error" in steps) {
+        reply.status(400);
+        return { error: steps.error };
+      }
+
+      const windowMinutes = parseWindowMinutes(request.body?.windowMinutes);
+      if (windowMinutes && typeof windowMinutes === "object") {
+        reply.status(400);
+        return { error: windowMinutes.error };
+      }
+
+      if (!(await getFunnel(id))) {
+        reply.status(404);
+        return { error: "Funil nao encontrado." };
+      }
+
+      const funnel = await updateFunnel(id, {
+        name: request.body?.name?.trim() || undefined,
+        steps,
+        windowMinutes,
+      });
+      return { funnel: serializeFunnel(funnel) };
+    },
+  );
+
+  app.delete<{ Params: FunnelParams }>("/api/funnels/:id", { preHandler: requireEditor }, async (request, reply) => {
+    const id = parseId(request.params.id);
+    if (!id) {
+      reply.status(400);
+      return { error: "Id de funil invalido." };
+    }
+
+    if (!(await getFunnel(id))) {
+      reply.status(404);
+      return { error: "Funil nao encontrado." };
+    }
+
+    await deleteFunnel(id);
+    return { success: true };
+  });
+}
@@ -0,0 +1,268 @@
+import { GoalMatchType } from "@prisma/client";
+import { FastifyInstance } from "fastify";
+import {
+  createGoalDefinition,
+  deleteGoalDefinition,
+  findGoalDefinitionByName,
+  getGoalDefinition,
+  listGoalDefinitions,
+  updateGoalDefinition,
+} from "../lib/db";
+import { parseSimpleSelector } from "../lib/goal-matching";
+import { requireAdmin, requireEditor } from "../server/auth";
+import { parseId } from "../server/request";
+import { serializeTimestamps } from "../server/serialize";
+import { resolveSiteFilter } from "../server/site";
+
+type GoalDefinitionParams = {
+  id: string;
+};
+
+type GoalDefinitionQuery = {
+  site?: string;
+};
+
+type GoalDefinitionBody = {
+  site?: string;
+  name?: string;
+  matchType?: string;
+  matchValue?: string;
+  value?: number | null;
+  currency?: string | null;
+  isActive?: boolean;
+};
+
+function parseMatchType(value?: string): GoalMatchType | null {
+  if (!value) {
+    return null;
+  }
+
+  const allowed = new Set<GoalMatchType>(["pageview", "click", "event"]);
+  return allowed.has(value as GoalMatchType) ? (value as GoalMatchType) : null;
+}
+
+function validateMatchValue(matchType: GoalMatchType, matchValue: string): string | null {
+  if (matchType === "pageview" && !matchValue.startsWith("/")) {
+    return "Para pageview, matchValue deve ser um caminho iniciado por /.";
+  }
+
+  if (matchType === "click" && !parseSimpleSelector(matchValue)) {
+    return "Para click, matchValue deve ser um seletor simples (tag, #id ou .classe).";
+  }
+
+  return null;
+}
+
+function parseCurrency(value: unknown): string | null | undefined | { error: string } {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (typeof value !== "string" || !/^[A-Za-z]{3}$/.test(value.trim())) {
+    return { error: "currency deve ser um codigo ISO 4217 de 3 letras." };
+  }
+
+  return value.trim().toUpperCase();
+}
+
+function parseValue(value: unknown): number | null | undefined | { error: string } {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    return { error: "value deve ser um numero nao negativo." };
+  }
+
+  return value;
+}
+
+function serializeGoalDefinition(definition: {
+  id: number;
+  siteId: number;
+  name: string;
+  matchType: GoalMatchType;
+  matchValue: string;
+  value: number | null;
+  currency: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: definition.id,
+    siteId: definition.siteId,
+    name: definition.name,
+    matchType: definition.matchType,
+    matchValue: definition.matchValue,
+    value: definition.value,
+    currency: definition.currency,
+    isActive: definition.isActive,
+    ...serializeTimestamps(definition),
+  };
+}
+
+export async function goalsRoutes(app: FastifyInstance) {
+  app.get<{ Querystring: GoalDefinitionQuery }>(
+    "/api/goals",
+    { preHandler: requireAdmin },
+    async (request, reply) => {
+      const site = await resolveSiteFilter(request.query.site);
+      if ("error" in site) {
+        reply.status(400);
+        return { error: site.error };
+      }
+
+      const definitions = await listGoalDefinitions(site.siteId);
+      return { goals: definitions.map(serializeGoalDefinition) };
+    },
+  );
+
+  app.post<{ Body: GoalDefinitionBody }>("/api/goals", { preHandler: requireEditor }, async (request, reply) => {
+    const name = request.body?.name?.trim();
+    const matchValue = request.body?.matchValue?.trim();
+    if (!name || !matchValue) {
+      reply.status(400);
+      return { error: "Nome e matchValue sao obrigatorios." };
+    }
+
+    const site = request.body?.site?.trim() ? await resolveSiteFilter(request.body.site) : undefined;
+    if (!site || "error" in site || site.siteId === undefined) {
+      reply.status(400);
+      return { error: "Site invalido ou ausente." };
+    }
+
+    const matchType = parseMatchType(request.body?.matchType);
+    if (!matchType) {
+      reply.status(400);
+      return { error: "matchType invalido. Use pageview, click ou event." };
+    }
+
+    const matchError = validateMatchValue(matchType, matchValue);
+    if (matchError) {
+      reply.status(400);
+      return { error: matchError };
+    }
+
+    const value = parseValue(request.body?.value);
+    if (value && typeof value === "object") {
+      reply.status(400);
+      return { error: value.error };
+    }
+
+    const currency = parseCurrency(request.body?.currency);
+    if (currency && typeof currency === "object") {
+      reply.status(400);
+      return { error: currency.error };
+    }
+
+    const isActive = request.body?.isActive ?? true;
+    if (typeof isActive !== "boolean") {
+      reply.status(400);
+      return { error: "isActive deve ser booleano." };
+    }
+
+    if (await findGoalDefinitionByName(site.siteId, name)) {
+      reply.status(409);
+      return { error: "Ja existe uma meta com este nome neste site." };
+    }
+
+    const definition = await createGoalDefinition({
+      siteId: site.siteId,
+      name,
+      matchType,
+      matchValue,
+      value,
+      currency,
+      isActive,
+    });
+    reply.status(201);
+    return { goal: serializeGoalDefinition(definition) };
+  });
+
+  app.patch<{ Params: GoalDefinitionParams; Body: GoalDefinitionBody }>(
+    "/api/goals/:id",
+    { preHandler: requireEditor },
+    async (request, reply) => {
+      const id = parseId(request.params.id);
+      if (!id) {
+        reply.status(400);
+        return { error: "Id de meta invalido." };
+      }
+
+      const existing = await getGoalDefinition(id);
+      if (!existing) {
+        reply.status(404);
+        return { error: "Meta nao encontrada." };
+      }
+
+      const matchType =
+        request.body?.matchType === undefined ? existing.matchType : parseMatchType(request.body.matchType);
+      if (!matchType) {
+        reply.status(400);
+        return { error: "matchType invalido. Use pageview, click ou event." };
+      }
+
+      const matchValue = request.body?.matchValue?.trim() || existing.matchValue;
+      const matchError = validateMatchValue(matchType, matchValue);
+      if (matchError) {
+        reply.status(400);
+        return { error: matchError };
+      }
+
+      const value = parseValue(request.body?.value);
+      if (value && typeof value === "object") {
+        reply.status(400);
+        return { error: value.error };
+      }
+
+      const currency = parseCurrency(request.body?.currency);
+      if (currency && typeof currency === "object") {
+        reply.status(400);
+        return { error: currency.error };
+      }
+
+      const isActive = request.body?.isActive;
+      if (isActive !== undefined && typeof isActive !== "boolean") {
+        reply.status(400);
+        return { error: "isActive deve ser booleano." };
+      }
+
+      const name = request.body?.name?.trim() || undefined;
+      if (name && name !== existing.name && (await findGoalDefinitionByName(existing.siteId, name))) {
+        reply.status(409);
+        return { error: "Ja existe uma meta com este nome neste site." };
+      }
+
+      const definition = await updateGoalDefinition(id, {
+        name,
+        matchType,
+        matchValue,
+        value,
+        currency,
+        isActive,
+      });
+      return { goal: serializeGoalDefinition(definition) };
+    },
+  );
+
+  app.delete<{ Params: GoalDefinitionParams }>(
+    "/api/goals/:id",
+    { preHandler: requireEditor },
+    async (request, reply) => {
+      const id = parseId(request.params.id);
+      if (!id) {
+        reply.status(400);
+        return { error: "Id de meta invalido." };
+      }
+
+      if (!(await getGoalDefinition(id))) {
+        reply.status(404);
+        return { error: "Meta nao encontrada." };
+      }
+
+      await deleteGoalDefinition(id);
+      return { success: true };
+    },
+  );
+}
@@ -1,14 +1,32 @@
 import { FastifyInstance } from "fastify";
+import { adminUsersRoutes } from "./admin-users.route";
 import { authRoutes } from "./auth.route";
+import { clickCategoriesRoutes } from "./click-categories.route";
+import { dataSubjectsRoutes } from "./data-subjects.route";
+import { funnelsRoutes } from "./funnels.route";
+import { goalsRoutes } from "./goals.route";
 import { healthRoutes } from "./health.route";
+import { realtimeRoutes } from "./realtime.route";
 import { reportsRoutes } from "./reports.route";
+import { retentionRoutes } from "./retention.route";
+import { sessionsRoutes } from "./sessions.route";
+import { sitesRoutes } from "./sites.route";
 import { statsRoutes } from "./stats.route";
 import { trackRoutes } from "./track.route";
 
 export async function registerRoutes(app: FastifyInstance) {
   await app.register(healthRoutes);
   await app.register(authRoutes);
+  await app.register(adminUsersRoutes);
+  await app.register(sitesRoutes);
   await app.register(trackRoutes);
   await app.register(statsRoutes);
   await app.register(reportsRoutes);
+  await app.register(retentionRoutes);
+  await app.register(dataSubjectsRoutes);
+  await app.register(funnelsRoutes);
+  await app.register(goalsRoutes);
+  await app.register(clickCategoriesRoutes);
+  await app.register(realtimeRoutes);
+  await app.register(sessionsRoutes);
 }
@@ -0,0 +1,152 @@
+import { FastifyInstance } from "fastify";
+import { getRealtimeVisitors, verifyAdminToken } from "../lib/db";
+import { LiveEvent, subscribeLiveEvents } from "../lib/realtime";
+import { getBearerToken, requireAdmin } from "../server/auth";
+import { resolveSiteFilter } from "../server/site";
+
+type RealtimeQuery = {
+  site?: string;
+  includeBots?: string;
+  minutes?: string;
+  limit?: string;
+};
+
+const STREAM_HEARTBEAT_MS = 25_000;
+
+function parseBoundedInt(value: string | undefined, defaultValue: number, min: number, max: number) {
+  const parsed = value ? Number(value) : defaultValue;
+  if (!Number.isFinite(parsed)) {
+    return defaultValue;
+  }
+
+  return Math.max(min, Math.min(Math.trunc(parsed), max));
+}
+
+function formatSseEvent(event: LiveEvent): string {
+  const { isBot: _isBot, ...data } = event;
+  return `event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function realtimeRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", requireAdmin);
+
+  app.get<{ Querystring: RealtimeQuery }>("/api/realtime", async (request, reply) => {
+    try {
+      const site = await resolveSiteFilter(request.query.site);
+      if ("error" in site) {
+        reply.status(400);
+        return { error: site.error };
+      }
+
+      const minutes = parseBoundedInt(request.query.minutes, 5, 1, 60);
+      const limit = parseBoundedInt(request.query.limit, 100, 1, 500);
+      const includeBots = request.query.includeBots === "true" || request.query.includeBots === "1";
+
+      const realtime = await getRealtimeVisitors({ siteId: site.siteId, includeBots }, minutes, limit);
+      return {
+        minutes,
+        since: realtime.since.toISOString(),
+        visitors: realtime.visitors,
+        sessions: realtime.sessions.map((session) => ({
+          id: session.id,
+          startTime: session.startTime.toISOString(),
+          lastPingTime: session.lastPingTime.toISOString(),
+          currentPage: session.currentPage,
+          country: session.country,
+          deviceType: session.deviceType,
+          browser: session.browser,
+        })),
+      };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching realtime visitors");
+      reply.status(500);
+      return { error: "Failed to fetch realtime visitors" };
+    }
+  });
+
+  // Server-Sent Events stream of page views, clicks and goals as they are recorded.
+  // Authentication still uses the Bearer header, so browsers need a fetch-based SSE client; the token
+  // is checked again on every heartbeat so a revoked or expired session stops receiving events.
+  app.get<{ Querystring: RealtimeQuery }>("/api/realtime/stream", async (request, reply) => {
+    const site = await resolveSiteFilter(request.query.site);
+    if ("error" in site) {
+      reply.status(400);
+      return { error: site.error };
+    }
+
+    const includeBots = request.query.includeBots === "true" || request.query.includeBots === "1";
+    const token = getBearerToken(request);
+
+    // Take over the socket; copy headers set by plugins such as CORS before writing our own.
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) {
+        reply.raw.setHeader(name, value);
+      }
+    }
+    reply.raw.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    reply.raw.write("retry: 5000\n\n");
+
+    // A slow consumer must not grow the socket buffer: events are dropped until it drains.
+    let draining = false;
+    let closed = false;
+    const send = (chunk: string) => {
+      if (draining || reply.raw.writableEnded) {
+        return;
+      }
+
+      if (!reply.raw.write(chunk)) {
+        draining = true;
+        reply.raw.once("drain", () => {
+          draining = false;
+        });
+      }
+    };
+
+    const unsubscribe = subscribeLiveEvents((event) => {
+      if (site.siteId !== undefined && event.siteId !== site.siteId) {
+        return;
+      }
+
+      if (event.isBot && !includeBots) {
+        return;
+      }
+
+      send(formatSseEvent(event));
+    });
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const admin = token ? await verifyAdminToken(token) : null;
+        if (!admin || !admin.isActive) {
+          close();
+          return;
+        }
+      } catch (error) {
+        request.log.error({ err: error }, "Error revalidating realtime stream session");
+        close();
+        return;
+      }
+
+      send(": heartbeat\n\n");
+    }, STREAM_HEARTBEAT_MS);
+
+    function close() {
+      if (closed) {
+        return;
+      }
+
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      reply.raw.end();
+    }
+
+    request.raw.on("close", close);
+  });
+}
@@ -1,28 +1,59 @@
 import { FastifyInstance } from "fastify";
 import {
+  ClickCategoryRule,
+  findClickCategory,
+  FunnelStep,
+  HeatmapDevice,
+  getFunnel,
   getReportBaseAccesses,
+  getReportBrowsers,
   getReportButtonClicks,
   getReportCities,
+  getReportClickCategory,
+  getReportCampaigns,
+  getReportCountries,
   getReportDevices,
+  getReportEntryPages,
+  getReportEvents,
+  getReportExitPages,
+  getReportFunnel,
+  getReportGoals,
+  getReportHeatmap,
+  getReportOperatingSystems,
   getReportOverview,
   getReportPages,
+  getReportPaths,
+  getReportReferrers,
+  getReportScrollDepth,
   getReportSessionDuration,
   getReportTopDevice,
   getReportTopSetupItems,
   getReportTimeseries,
   getReportTopLinks,
+  getReportVisitorTypes,
   ReportMetric,
   StatsPeriod,
   StatsRangeInput,
 } from "../lib/db";
+import { requireAdmin } from "../server/auth";
+import { parseId } from "../server/request";
+import { resolveSiteFilter } from "../server/site";
 
 type ReportQuery = {
   period?: StatsPeriod;
   from?: string;
   to?: string;
+  site?: string;
+  includeBots?: string;
   limit?: string;
   metric?: ReportMetric;
   path?: string;
+  name?: string;
+  property?: string;
+  where?: string;
+  grid?: string;
+  device?: string;
+  length?: string;
 };
 
 type ReportPeriodResponse = StatsPeriod | "all";
@@ -76,7 +107,7 @@ function resolveRangeMeta(input: StatsRangeInput): {
   };
 }
 
-function parseRangeQuery(query: ReportQuery): StatsRangeInput | { error: string } {
+async function parseRangeQuery(query: ReportQuery): Promise<StatsRangeInput | { error: string }> {
   const allowedPeriods = new Set<StatsPeriod>(["day", "week", "month", "year", "custom"]);
   const period = query.period;
 
@@ -88,10 +119,17 @@ function parseRangeQuery(query: ReportQuery): StatsRangeInput | { error: string
     return { error: "Custom period requires 'from' query parameter." };
   }
 
+  const site = await resolveSiteFilter(query.site);
+  if ("error" in site) {
+    return { error: site.error };
+  }
+
   return {
     period,
     from: query.from,
     to: query.to,
+    siteId: site.siteId,
+    includeBots: query.includeBots === "true" || query.includeBots === "1",
   };
 }
 
@@ -113,10 +151,33 @@ function parseMetric(value?: string): ReportMetric | null {
     return null;
   }
 
-  const allowed = new Set<ReportMetric>(["sessions", "pageViews", "pings", "clicks", "goals"]);
+  const allowed = new Set<ReportMetric>([
+    "sessions",
+    "pageViews",
+    "pings",
+    "clicks",
+    "goals",
+    "uniqueVisitors",
+    "returningVisitors",
+  ]);
   return allowed.has(value as ReportMetric) ? (value as ReportMetric) : null;
 }
 
+// "key:value", e.g. where=plan:pro; the value may itself contain colons.
+function parsePropertyFilter(value?: string): { key: string; value: string } | { error: string } | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const separator = value.indexOf(":");
+  const key = separator > 0 ? value.slice(0, separator).trim() : "";
+  if (!key) {
+    return { error: "Invalid where. Use key:value." };
+  }
+
+  return { key, value: value.slice(separator + 1) };
+}
+
 async function withTimeout<T>(promise: Promise<T>, timeoutMs = 8000): Promise<T> {
   return Promise.race([
     promise,
@@ -131,9 +192,11 @@ function reportErrorStatus(error: unknown): 500 | 504 {
 }
 
 export async function reportsRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", requireAdmin);
+
   app.get<{ Querystring: ReportQuery }>("/api/reports/base-accesses", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -152,7 +215,7 @@ export async function reportsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: ReportQuery }>("/api/reports/button-clicks", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -170,7 +233,7 @@ export async function reportsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: ReportQuery }>("/api/reports/device-top", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -188,7 +251,7 @@ export async function reportsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: ReportQuery }>("/api/reports/cities", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -205,9 +268,279 @@ export async function reportsRoutes(app: FastifyInstance) {
     }
   });
 
+  app.get<{ Querystring: ReportQuery }>("/api/reports/entry-pages", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const limit = parseLimit(request.query.limit, 20);
+      const rows = await withTimeout(getReportEntryPages(parsed, limit));
+      return { period: range.period, from: range.from, to: range.to, limit, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching entry pages report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch entry pages report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/exit-pages", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const limit = parseLimit(request.query.limit, 20);
+      const rows = await withTimeout(getReportExitPages(parsed, limit));
+      return { period: range.period, from: range.from, to: range.to, limit, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching exit pages report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch exit pages report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/paths", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const length = request.query.length ? Number(request.query.length) : 3;
+      if (!Number.isInteger(length) || length < 2 || length > 10) {
+        reply.status(400);
+        return { error: "Invalid length. Use an integer between 2 and 10." };
+      }
+
+      const path = request.query.path?.trim() || undefined;
+      const limit = parseLimit(request.query.limit, 20);
+      const report = await withTimeout(getReportPaths(parsed, { path, length, limit }));
+      return { period: range.period, from: range.from, to: range.to, limit, ...report };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching paths report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch paths report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/scroll-depth", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const path = request.query.path?.trim() || undefined;
+      const report = await withTimeout(getReportScrollDepth(parsed, path));
+      return { period: range.period, from: range.from, to: range.to, path: path ?? null, ...report };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching scroll depth report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch scroll depth report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/heatmap", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const path = request.query.path?.trim();
+      if (!path) {
+        reply.status(400);
+        return { error: "Heatmap requires a 'path' query parameter." };
+      }
+
+      const device = request.query.device;
+      if (device && device !== "mobile" && device !== "tablet" && device !== "desktop") {
+        reply.status(400);
+        return { error: "Invalid device. Use mobile, tablet or desktop." };
+      }
+
+      const grid = request.query.grid ? Number(request.query.grid) : 20;
+      if (!Number.isInteger(grid) || grid < 5 || grid > 100) {
+        reply.status(400);
+        return { error: "Invalid grid. Use an integer between 5 and 100." };
+      }
+
+      const limit = parseLimit(request.query.limit, 20);
+      const heatmap = await withTimeout(
+        getReportHeatmap(parsed, path, { grid, device: device as HeatmapDevice | undefined, limit }),
+      );
+      return { period: range.period, from: range.from, to: range.to, path, ...heatmap };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching heatmap report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch heatmap report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/events", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const name = request.query.name?.trim() || undefined;
+      const property = request.query.property?.trim() || undefined;
+      const where = parsePropertyFilter(request.query.where);
+      if (where && "error" in where) {
+        reply.status(400);
+        return { error: where.error };
+      }
+
+      const limit = parseLimit(request.query.limit, 20);
+      const rows = await withTimeout(getReportEvents(parsed, { name, property, where }, limit));
+      return { period: range.period, from: range.from, to: range.to, name, property, where, limit, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching events report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch events report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/goals", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const limit = parseLimit(request.query.limit, 20);
+      const report = await withTimeout(getReportGoals(parsed, limit));
+      return { period: range.period, from: range.from, to: range.to, limit, ...report };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching goals report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch goals report" };
+    }
+  });
+
+  // The funnel's own site wins over any ?site= filter.
+  app.get<{ Params: { id: string }; Querystring: ReportQuery }>(
+    "/api/reports/funnels/:id",
+    async (request, reply) => {
+      try {
+        const parsed = await parseRangeQuery(request.query);
+        if ("error" in parsed) {
+          reply.status(400);
+          return { error: parsed.error };
+        }
+        const range = resolveRangeMeta(parsed);
+
+        const id = parseId(request.params.id);
+        if (!id) {
+          reply.status(400);
+          return { error: "Invalid funnel id." };
+        }
+
+        const funnel = await getFunnel(id);
+        if (!funnel) {
+          reply.status(404);
+          return { error: "Funnel not found." };
+        }
+
+        const report = await withTimeout(
+          getReportFunnel(
+            { siteId: funnel.siteId, steps: funnel.steps as FunnelStep[], windowMinutes: funnel.windowMinutes },
+            parsed,
+          ),
+        );
+        return {
+          period: range.period,
+          from: range.from,
+          to: range.to,
+          funnel: { id: funnel.id, name: funnel.name, windowMinutes: funnel.windowMinutes },
+          ...report,
+        };
+      } catch (error) {
+        request.log.error({ err: error }, "Error fetching funnel report");
+        reply.status(reportErrorStatus(error));
+        return { error: "Failed to fetch funnel report" };
+      }
+    },
+  );
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/referrers", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const limit = parseLimit(request.query.limit, 20);
+      const rows = await withTimeout(getReportReferrers(parsed, limit));
+      return { period: range.period, from: range.from, to: range.to, limit, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching referrers report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch referrers report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/campaigns", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const limit = parseLimit(request.query.limit, 20);
+      const rows = await withTimeout(getReportCampaigns(parsed, limit));
+      return { period: range.period, from: range.from, to: range.to, limit, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching campaigns report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch campaigns report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/countries", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const limit = parseLimit(request.query.limit, 20);
+      const rows = await withTimeout(getReportCountries(parsed, limit));
+      return { period: range.period, from: range.from, to: range.to, limit, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching countries report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch countries report" };
+    }
+  });
+
   app.get<{ Querystring: ReportQuery }>("/api/reports/overview", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -223,9 +556,27 @@ export async function reportsRoutes(app: FastifyInstance) {
     }
   });
 
+  app.get<{ Querystring: ReportQuery }>("/api/reports/visitors", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const rows = await withTimeout(getReportVisitorTypes(parsed));
+      return { period: range.period, from: range.from, to: range.to, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching visitors report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch visitors report" };
+    }
+  });
+
   app.get<{ Querystring: ReportQuery }>("/api/reports/timeseries", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -235,7 +586,10 @@ export async function reportsRoutes(app: FastifyInstance) {
       const metric = parseMetric(request.query.metric);
       if (request.query.metric && !metric) {
         reply.status(400);
-        return { error: "Invalid metric. Use sessions, pageViews, pings, clicks or goals." };
+        return {
+          error:
+            "Invalid metric. Use sessions, pageViews, pings, clicks, goals, uniqueVisitors or returningVisitors.",
+        };
       }
 
       const data = await withTimeout(getReportTimeseries(parsed, metric ?? undefined));
@@ -253,9 +607,39 @@ export async function reportsRoutes(app: FastifyInstance) {
     }
   });
 
+  app.get<{ Params: { category: string }; Querystring: ReportQuery }>(
+    "/api/reports/clicks/:category",
+    async (request, reply) => {
+      try {
+        const parsed = await parseRangeQuery(request.query);
+        if ("error" in parsed) {
+          reply.status(400);
+          return { error: parsed.error };
+        }
+        const range = resolveRangeMeta(parsed);
+
+        const category = await findClickCategory(request.params.category, parsed.siteId);
+        if (!category) {
+          reply.status(404);
+          return { error: "Click category not found." };
+        }
+
+        const limit = parseLimit(request.query.limit, 20);
+        const rows = await withTimeout(
+          getReportClickCategory(category.rules as ClickCategoryRule[], parsed, limit),
+        );
+        return { period: range.period, from: range.from, to: range.to, category: category.name, limit, rows };
+      } catch (error) {
+        request.log.error({ err: error }, "Error fetching click category report");
+        reply.status(reportErrorStatus(error));
+        return { error: "Failed to fetch click category report" };
+      }
+    },
+  );
+
   app.get<{ Querystring: ReportQuery }>("/api/reports/top-links", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -274,7 +658,7 @@ export async function reportsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: ReportQuery }>("/api/reports/top-setup-items", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -293,7 +677,7 @@ export async function reportsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: ReportQuery }>("/api/reports/pages", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -312,7 +696,7 @@ export async function reportsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: ReportQuery }>("/api/reports/devices", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -328,9 +712,47 @@ export async function reportsRoutes(app: FastifyInstance) {
     }
   });
 
+  app.get<{ Querystring: ReportQuery }>("/api/reports/browsers", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const limit = parseLimit(request.query.limit, 20);
+      const rows = await withTimeout(getReportBrowsers(parsed, limit));
+      return { period: range.period, from: range.from, to: range.to, limit, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching browsers report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch browsers report" };
+    }
+  });
+
+  app.get<{ Querystring: ReportQuery }>("/api/reports/os", async (request, reply) => {
+    try {
+      const parsed = await parseRangeQuery(request.query);
+      if ("error" in parsed) {
+        reply.status(400);
+        return { error: parsed.error };
+      }
+      const range = resolveRangeMeta(parsed);
+
+      const limit = parseLimit(request.query.limit, 20);
+      const rows = await withTimeout(getReportOperatingSystems(parsed, limit));
+      return { period: range.period, from: range.from, to: range.to, limit, rows };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching operating systems report");
+      reply.status(reportErrorStatus(error));
+      return { error: "Failed to fetch operating systems report" };
+    }
+  });
+
   app.get<{ Querystring: ReportQuery }>("/api/reports/session-duration", async (request, reply) => {
     try {
-      const parsed = parseRangeQuery(request.query);
+      const parsed = await parseRangeQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
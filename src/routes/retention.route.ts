@@ -0,0 +1,29 @@
+import { FastifyInstance } from "fastify";
+import { previewRetentionPurge, purgeExpiredEvents } from "../lib/db";
+import { requireRole } from "../server/auth";
+
+export async function retentionRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", requireRole("owner"));
+
+  app.get("/api/admin/retention", async (request, reply) => {
+    try {
+      const tables = await previewRetentionPurge();
+      return { dryRun: true, tables };
+    } catch (error) {
+      request.log.error({ err: error }, "Error previewing retention purge");
+      reply.status(500);
+      return { error: "Failed to preview retention purge" };
+    }
+  });
+
+  app.post("/api/admin/retention/run", async (request, reply) => {
+    try {
+      const deleted = await purgeExpiredEvents();
+      return { success: true, deleted };
+    } catch (error) {
+      request.log.error({ err: error }, "Error running retention purge");
+      reply.status(500);
+      return { error: "Failed to run retention purge" };
+    }
+  });
+}
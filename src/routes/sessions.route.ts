@@ -0,0 +1,191 @@
+import { FastifyInstance } from "fastify";
+import { getSessionTimeline, listSessions, SessionListFilter, StatsPeriod } from "../lib/db";
+import { requireAdmin } from "../server/auth";
+import { resolveSiteFilter } from "../server/site";
+
+type SessionsQuery = {
+  period?: StatsPeriod;
+  from?: string;
+  to?: string;
+  site?: string;
+  includeBots?: string;
+  city?: string;
+  country?: string;
+  device?: string;
+  browser?: string;
+  entryPage?: string;
+  hasGoal?: string;
+  page?: string;
+  pageSize?: string;
+};
+
+type SessionParams = {
+  id: string;
+};
+
+function parsePositiveInt(value: string | undefined, max: number): number | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 && parsed <= max ? parsed : null;
+}
+
+function parseBoolean(value?: string): boolean | undefined | null {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  if (value === "true" || value === "1") {
+    return true;
+  }
+
+  return value === "false" || value === "0" ? false : null;
+}
+
+function optionalString(value?: string): string | undefined {
+  return value?.trim() || undefined;
+}
+
+async function parseSessionsQuery(query: SessionsQuery): Promise<SessionListFilter | { error: string }> {
+  const allowedPeriods = new Set<StatsPeriod>(["day", "week", "month", "year", "custom"]);
+  const period = query.period;
+
+  if (period && !allowedPeriods.has(period)) {
+    return { error: "Invalid period. Use day, week, month, year or custom." };
+  }
+
+  if (period === "custom" && !query.from) {
+    return { error: "Custom period requires 'from' query parameter." };
+  }
+
+  const hasGoal = parseBoolean(query.hasGoal);
+  if (hasGoal === null) {
+    return { error: "Invalid hasGoal. Use true or false." };
+  }
+
+  const page = parsePositiveInt(query.page, 100_000);
+  const pageSize = parsePositiveInt(query.pageSize, 100);
+  if (page === null || pageSize === null) {
+    return { error: "Invalid pagination. 'page' must be a positive integer and 'pageSize' at most 100." };
+  }
+
+  const entryPage = optionalString(query.entryPage);
+  if (entryPage && !entryPage.startsWith("/")) {
+    return { error: "'entryPage' must start with /." };
+  }
+
+  const site = await resolveSiteFilter(query.site);
+  if ("error" in site) {
+    return { error: site.error };
+  }
+
+  return {
+    period,
+    from: query.from,
+    to: query.to,
+    siteId: site.siteId,
+    includeBots: query.includeBots === "true" || query.includeBots === "1",
+    city: optionalString(query.city),
+    country: optionalString(query.country)?.toUpperCase(),
+    deviceType: optionalString(query.device)?.toLowerCase(),
+    browser: optionalString(query.browser),
+    entryPage,
+    hasGoal,
+    page,
+    pageSize,
+  };
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs = 8000): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      setTimeout(() => reject(new Error("Sessions query timeout")), timeoutMs);
+    }),
+  ]);
+}
+
+function getErrorStatus(error: unknown): 500 | 504 {
+  return error instanceof Error && error.message === "Sessions query timeout" ? 504 : 500;
+}
+
+export async function sessionsRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", requireAdmin);
+
+  app.get<{ Querystring: SessionsQuery }>("/api/sessions", async (request, reply) => {
+    try {
+      const filter = await parseSessionsQuery(request.query);
+      if ("error" in filter) {
+        reply.status(400);
+        return { error: filter.error };
+      }
+
+      const result = await withTimeout(listSessions(filter));
+      return {
+        page: result.page,
+        pageSize: result.pageSize,
+        total: result.total,
+        totalPages: Math.ceil(result.total / result.pageSize),
+        sessions: result.sessions.map((session) => ({
+          ...session,
+          startTime: session.startTime.toISOString(),
+          lastPingTime: session.lastPingTime.toISOString(),
+        })),
+      };
+    } catch (error) {
+      request.log.error({ err: error }, "Error listing sessions");
+      reply.status(getErrorStatus(error));
+      return { error: "Failed to list sessions" };
+    }
+  });
+
+  app.get<{ Params: SessionParams }>("/api/sessions/:id", async (request, reply) => {
+    try {
+      const result = await withTimeout(getSessionTimeline(request.params.id));
+      if (!result) {
+        reply.status(404);
+        return { error: "Session not found" };
+      }
+
+      const { session, timeline } = result;
+      // IP address and visitor hash stay behind the owner-only data subject endpoints.
+      return {
+        session: {
+          id: session.id,
+          siteId: session.siteId,
+          startTime: session.startTime.toISOString(),
+          lastPingTime: session.lastPingTime.toISOString(),
+          duration: session.duration,
+          isBot: session.isBot,
+          deviceType: session.deviceType,
+          browser: session.browser,
+          browserVersion: session.browserVersion,
+          os: session.os,
+          osVersion: session.osVersion,
+          country: session.country,
+          region: session.region,
+          city: session.city,
+          referrer: session.referrer,
+          referrerSource: session.referrerSource,
+          referrerName: session.referrerName,
+          landingPage: session.landingPage,
+          utmSource: session.utmSource,
+          utmMedium: session.utmMedium,
+          utmCampaign: session.utmCampaign,
+          utmTerm: session.utmTerm,
+          utmContent: session.utmContent,
+        },
+        timeline: timeline.map((step) => ({
+          ...step,
+          timestamp: step.timestamp.toISOString(),
+        })),
+      };
+    } catch (error) {
+      request.log.error({ err: error }, "Error fetching session timeline");
+      reply.status(getErrorStatus(error));
+      return { error: "Failed to fetch session timeline" };
+    }
+  });
+}
@@ -0,0 +1,75 @@
+import { FastifyInstance } from "fastify";
+import { createSite, getSite, listSites, updateSite } from "../lib/db";
+import { requireAdmin, requireRole } from "../server/auth";
+import { parseId } from "../server/request";
+
+type SiteParams = {
+  id: string;
+};
+
+type SiteBody = {
+  name?: string;
+  domain?: string;
+};
+
+function serializeSite(site: {
+  id: number;
+  key: string;
+  name: string;
+  domain: string | null;
+  createdAt: Date;
+}) {
+  return {
+    id: site.id,
+    key: site.key,
+    name: site.name,
+    domain: site.domain,
+    createdAt: site.createdAt.toISOString(),
+  };
+}
+
+export async function sitesRoutes(app: FastifyInstance) {
+  app.get("/api/admin/sites", { preHandler: requireAdmin }, async () => {
+    const sites = await listSites();
+    return { sites: sites.map(serializeSite) };
+  });
+
+  app.post<{ Body: SiteBody }>(
+    "/api/admin/sites",
+    { preHandler: requireRole("owner") },
+    async (request, reply) => {
+      const name = request.body?.name?.trim();
+      if (!name) {
+        reply.status(400);
+        return { error: "Nome do site e obrigatorio." };
+      }
+
+      const site = await createSite({ name, domain: request.body?.domain?.trim() || undefined });
+      reply.status(201);
+      return { site: serializeSite(site) };
+    },
+  );
+
+  app.patch<{ Params: SiteParams; Body: SiteBody }>(
+    "/api/admin/sites/:id",
+    { preHandler: requireRole("owner") },
+    async (request, reply) => {
+      const id = parseId(request.params.id);
+      if (!id) {
+        reply.status(400);
+        return { error: "Id de site invalido." };
+      }
+
+      if (!(await getSite(id))) {
+        reply.status(404);
+        return { error: "Site nao encontrado." };
+      }
+
+      const site = await updateSite(id, {
+        name: request.body?.name?.trim() || undefined,
+        domain: request.body?.domain?.trim() || undefined,
+      });
+      return { site: serializeSite(site) };
+    },
+  );
+}
@@ -8,14 +8,18 @@ import {
   getStatsByRange,
   StatsPeriod,
 } from "../lib/db";
+import { requireAdmin } from "../server/auth";
+import { resolveSiteFilter } from "../server/site";
 
 type StatsQuery = {
   period?: StatsPeriod;
   from?: string;
   to?: string;
+  site?: string;
+  includeBots?: string;
 };
 
-function parseStatsQuery(query: StatsQuery) {
+async function parseStatsQuery(query: StatsQuery) {
   const allowedPeriods = new Set<StatsPeriod>(["day", "week", "month", "year", "custom"]);
   const period = query.period;
 
@@ -27,10 +31,17 @@ function parseStatsQuery(query: StatsQuery) {
     return { error: "Custom period requires 'from' query parameter." };
   }
 
+  const site = await resolveSiteFilter(query.site);
+  if ("error" in site) {
+    return { error: site.error };
+  }
+
   return {
     period,
     from: query.from,
     to: query.to,
+    siteId: site.siteId,
+    includeBots: query.includeBots === "true" || query.includeBots === "1",
   };
 }
 
@@ -48,9 +59,11 @@ function getErrorStatus(error: unknown): 500 | 504 {
 }
 
 export async function statsRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", requireAdmin);
+
   app.get<{ Querystring: StatsQuery }>("/api/stats/summary", async (request, reply) => {
     try {
-      const parsed = parseStatsQuery(request.query);
+      const parsed = await parseStatsQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -68,7 +81,7 @@ export async function statsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: StatsQuery }>("/api/stats/clicks", async (request, reply) => {
     try {
-      const parsed = parseStatsQuery(request.query);
+      const parsed = await parseStatsQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -85,7 +98,7 @@ export async function statsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: StatsQuery }>("/api/stats/accesses", async (request, reply) => {
     try {
-      const parsed = parseStatsQuery(request.query);
+      const parsed = await parseStatsQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -102,7 +115,7 @@ export async function statsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: StatsQuery }>("/api/stats/sessions", async (request, reply) => {
     try {
-      const parsed = parseStatsQuery(request.query);
+      const parsed = await parseStatsQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -119,7 +132,7 @@ export async function statsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: StatsQuery }>("/api/stats/pings", async (request, reply) => {
     try {
-      const parsed = parseStatsQuery(request.query);
+      const parsed = await parseStatsQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -136,7 +149,7 @@ export async function statsRoutes(app: FastifyInstance) {
 
   app.get<{ Querystring: StatsQuery }>("/api/stats/goals", async (request, reply) => {
     try {
-      const parsed = parseStatsQuery(request.query);
+      const parsed = await parseStatsQuery(request.query);
       if ("error" in parsed) {
         reply.status(400);
         return { error: parsed.error };
@@ -1,35 +1,38 @@
 import { FastifyInstance, FastifyRequest } from "fastify";
-import { trackClick, trackGoal, trackPageView, trackPing, trackSession } from "../lib/db";
+import { env } from "../config/env";
+import {
+  trackBatch,
+  trackClick,
+  trackCustomEvent,
+  trackGoal,
+  trackPageView,
+  trackPing,
+  trackSession,
+} from "../lib/db";
+import { lookupGeo } from "../lib/geoip";
+import { registerBeaconParsers } from "../server/beacon";
+import { flagBots } from "../server/bot";
+import { hasDoNotTrack, honorDoNotTrack } from "../server/privacy";
+import { getClientIp, headerString } from "../server/request";
+import { requireSite } from "../server/site";
 
 type PayloadBody = {
   Body: Record<string, unknown>;
 };
 
-function headerString(value: unknown): string | undefined {
-  if (typeof value === "string" && value.trim().length > 0) {
-    return value.trim();
-  }
-
-  if (Array.isArray(value) && value.length > 0) {
-    const first = value[0];
-    return typeof first === "string" && first.trim().length > 0 ? first.trim() : undefined;
-  }
-
-  return undefined;
-}
-
-function getClientIp(request: FastifyRequest) {
-  const forwarded = headerString(request.headers["x-forwarded-for"]);
-  if (forwarded) {
-    return forwarded.split(",")[0].trim();
-  }
+type BeaconTracker = (siteId: number, payload: Record<string, unknown>) => Promise<unknown>;
 
-  const realIp = headerString(request.headers["x-real-ip"]);
-  if (realIp) {
-    return realIp;
-  }
+const beaconTrackers: Record<string, BeaconTracker> = {
+  session: trackSession,
+  view: trackPageView,
+  ping: trackPing,
+  click: trackClick,
+  goal: trackGoal,
+  event: trackCustomEvent,
+};
 
-  return request.ip;
+function trackErrorStatus(error: unknown): 409 | 500 {
+  return error instanceof Error && error.message === "Session belongs to a different site" ? 409 : 500;
 }
 
 function withRequestContext(request: FastifyRequest, body: Record<string, unknown>) {
@@ -43,66 +46,191 @@ function withRequestContext(request: FastifyRequest, body: Record<string, unknow
     headerString(request.headers["x-vercel-ip-country"]) ??
     headerString(request.headers["x-appengine-country"]);
 
-  return {
+  const regionHeader =
+    headerString(request.headers["cf-region"]) ??
+    headerString(request.headers["x-vercel-ip-country-region"]) ??
+    headerString(request.headers["x-appengine-region"]);
+
+  // Never take the address from the body: it is stored and feeds the daily visitor hash.
+  const ipAddress = getClientIp(request);
+  // Only consult the local GeoIP database when the host did not tell us where the visitor is.
+  const geo = cityHeader && countryHeader ? undefined : lookupGeo(ipAddress);
+
+  // Beacons and fetches from the page send its URL as Referer; document.referrer has to come in the body.
+  const refererHeader = headerString(request.headers.referer);
+
+  const context = {
     ...body,
-    ipAddress: typeof body.ipAddress === "string" ? body.ipAddress : getClientIp(request),
-    city: typeof body.city === "string" ? body.city : cityHeader,
-    country: typeof body.country === "string" ? body.country : countryHeader,
+    referrer: typeof body.referrer === "string" ? body.referrer : refererHeader,
+    url:
+      typeof body.url === "string"
+        ? body.url
+        : typeof body.landingUrl === "string"
+          ? body.landingUrl
+          : refererHeader,
+    userAgent: typeof body.userAgent === "string" ? body.userAgent : headerString(request.headers["user-agent"]),
+    ipAddress,
+    ip: undefined,
+    city: typeof body.city === "string" ? body.city : (cityHeader ?? geo?.city),
+    country: typeof body.country === "string" ? body.country : (countryHeader ?? geo?.country),
+    region: typeof body.region === "string" ? body.region : (regionHeader ?? geo?.region),
+    latitude: body.latitude ?? geo?.latitude,
+    longitude: body.longitude ?? geo?.longitude,
+    isBot: request.botVerdict?.isBot ?? false,
   };
+
+  if (hasDoNotTrack(request)) {
+    // Anonymized visitors keep their country but nothing finer-grained or linkable.
+    return {
+      ...context,
+      ipAddress: undefined,
+      ip: undefined,
+      city: undefined,
+      region: undefined,
+      latitude: undefined,
+      longitude: undefined,
+      doNotTrack: true,
+    };
+  }
+
+  return context;
 }
 
 export async function trackRoutes(app: FastifyInstance) {
+  registerBeaconParsers(app);
+  app.addHook("preHandler", requireSite);
+  app.addHook("preHandler", honorDoNotTrack);
+  app.addHook("preHandler", flagBots);
+
+  app.post<PayloadBody>("/api/track/beacon", async (request, reply) => {
+    const body = request.body ?? {};
+    const events = Array.isArray(body.events) && body.events.length > 0 ? body.events : undefined;
+    const tracker = typeof body.type === "string" ? beaconTrackers[body.type] : undefined;
+
+    if (!events && !tracker) {
+      reply.status(400);
+      return { error: "Beacon requires an event 'type' or an 'events' array" };
+    }
+
+    if (events && events.length > env.trackBatchMaxEvents) {
+      reply.status(413);
+      return { error: `Batch exceeds the maximum of ${env.trackBatchMaxEvents} events` };
+    }
+
+    const siteId = request.site!.id;
+    const payload = withRequestContext(request, body);
+
+    // The page is already unloading and never reads the response, but waiting for the write keeps
+    // a burst of beacons bounded by the connection limits instead of piling up detached DB work.
+    try {
+      await (events ? trackBatch(siteId, payload, events) : tracker!(siteId, payload));
+    } catch (error) {
+      request.log.error({ err: error }, "Error tracking beacon");
+      reply.status(trackErrorStatus(error));
+      return { error: "Failed to track beacon" };
+    }
+
+    reply.status(204);
+    return reply.send();
+  });
+
   app.post<PayloadBody>("/api/track/goal", async (request, reply) => {
     try {
-      await trackGoal(withRequestContext(request, request.body));
+      await trackGoal(request.site!.id, withRequestContext(request, request.body));
       return { success: true };
     } catch (error) {
       request.log.error({ err: error }, "Error tracking goal");
-      reply.status(500);
+      reply.status(trackErrorStatus(error));
       return { error: "Failed to track goal" };
     }
   });
 
+  app.post<PayloadBody>("/api/track/event", async (request, reply) => {
+    try {
+      const result = await trackCustomEvent(request.site!.id, withRequestContext(request, request.body));
+      if ("error" in result) {
+        reply.status(400);
+        return { error: result.error };
+      }
+
+      return { success: true };
+    } catch (error) {
+      request.log.error({ err: error }, "Error tracking event");
+      reply.status(trackErrorStatus(error));
+      return { error: "Failed to track event" };
+    }
+  });
+
   app.post<PayloadBody>("/api/track/session", async (request, reply) => {
     try {
-      await trackSession(withRequestContext(request, request.body));
+      await trackSession(request.site!.id, withRequestContext(request, request.body));
       return { success: true };
     } catch (error) {
       request.log.error({ err: error }, "Error tracking session");
-      reply.status(500);
+      reply.status(trackErrorStatus(error));
       return { error: "Failed to track session" };
     }
   });
 
   app.post<PayloadBody>("/api/track/view", async (request, reply) => {
     try {
-      await trackPageView(withRequestContext(request, request.body));
+      await trackPageView(request.site!.id, withRequestContext(request, request.body));
       return { success: true };
     } catch (error) {
       request.log.error({ err: error }, "Error tracking view");
-      reply.status(500);
+      reply.status(trackErrorStatus(error));
       return { error: "Failed to track view" };
     }
   });
 
   app.post<PayloadBody>("/api/track/ping", async (request, reply) => {
     try {
-      await trackPing(withRequestContext(request, request.body));
+      await trackPing(request.site!.id, withRequestContext(request, request.body));
       return { success: true };
     } catch (error) {
       request.log.error({ err: error }, "Error tracking ping");
-      reply.status(500);
+      reply.status(trackErrorStatus(error));
       return { error: "Failed to track ping" };
     }
   });
 
+  app.post<PayloadBody>("/api/track/batch", async (request, reply) => {
+    const events = request.body?.events;
+    if (!Array.isArray(events) || events.length === 0) {
+      reply.status(400);
+      return { error: "Batch requires a non-empty 'events' array" };
+    }
+
+    if (events.length > env.trackBatchMaxEvents) {
+      reply.status(413);
+      return { error: `Batch exceeds the maximum of ${env.trackBatchMaxEvents} events` };
+    }
+
+    try {
+      const result = await trackBatch(request.site!.id, withRequestContext(request, request.body), events);
+      const accepted = result.results.filter((item) => item.status === "accepted").length;
+
+      return {
+        success: true,
+        sessionId: result.sessionId,
+        accepted,
+        rejected: result.results.length - accepted,
+        results: result.results,
+      };
+    } catch (error) {
+      request.log.error({ err: error }, "Error tracking batch");
+      reply.status(trackErrorStatus(error));
+      return { error: "Failed to track batch" };
+    }
+  });
+
   app.post<PayloadBody>("/api/track/click", async (request, reply) => {
     try {
-      await trackClick(withRequestContext(request, request.body));
+      await trackClick(request.site!.id, withRequestContext(request, request.body));
       return { success: true };
     } catch (error) {
       request.log.error({ err: error }, "Error tracking click");
-      reply.status(500);
+      reply.status(trackErrorStatus(error));
       return { error: "Failed to track click" };
     }
   });
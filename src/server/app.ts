@@ -1,14 +1,20 @@
 import Fastify from "fastify";
 import cors from "@fastify/cors";
+import { env } from "../config/env";
 
 export function buildApp() {
   const app = Fastify({
     logger: true,
+    trustProxy: env.trustProxy,
   });
 
   app.register(cors, {
     origin: true,
   });
 
+  app.decorateRequest("admin", null);
+  app.decorateRequest("site", null);
+  app.decorateRequest("botVerdict", null);
+
   return app;
 }
@@ -0,0 +1,65 @@
+import { AdminRole } from "@prisma/client";
+import { FastifyReply, FastifyRequest } from "fastify";
+import { verifyAdminToken } from "../lib/db";
+
+export type AuthenticatedAdmin = {
+  id: number;
+  email: string;
+  role: AdminRole;
+  sessionId: string;
+};
+
+declare module "fastify" {
+  interface FastifyRequest {
+    admin: AuthenticatedAdmin | null;
+  }
+}
+
+export function getBearerToken(request: FastifyRequest): string | undefined {
+  const authHeader = request.headers.authorization;
+  if (!authHeader?.startsWith("Bearer ")) {
+    return undefined;
+  }
+
+  const token = authHeader.slice("Bearer ".length).trim();
+  return token.length > 0 ? token : undefined;
+}
+
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+  const token = getBearerToken(request);
+  if (!token) {
+    return reply.status(401).send({ error: "Token de acesso ausente." });
+  }
+
+  const admin = await verifyAdminToken(token);
+  if (!admin) {
+    return reply.status(401).send({ error: "Sessao invalida ou expirada." });
+  }
+
+  if (!admin.isActive) {
+    return reply.status(403).send({ error: "Acesso negado." });
+  }
+
+  request.admin = {
+    id: admin.id,
+    email: admin.email,
+    role: admin.role,
+    sessionId: admin.sessionId,
+  };
+}
+
+export function requireRole(...roles: AdminRole[]) {
+  return async function requireRoleHandler(request: FastifyRequest, reply: FastifyReply) {
+    await requireAdmin(request, reply);
+    if (reply.sent) {
+      return reply;
+    }
+
+    if (!request.admin || !roles.includes(request.admin.role)) {
+      return reply.status(403).send({ error: "Acesso negado." });
+    }
+  };
+}
+
+// Owners and analysts manage report definitions (goals, funnels, click categories); viewers only read.
+export const requireEditor = requireRole("owner", "analyst");
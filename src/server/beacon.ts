@@ -0,0 +1,61 @@
+import { FastifyInstance } from "fastify";
+
+type BeaconBody = Record<string, unknown>;
+
+function parseJsonObject(raw: string): BeaconBody | undefined {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as BeaconBody)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseTextBeacon(raw: string): BeaconBody | undefined {
+  if (raw.trim().length === 0) {
+    return {};
+  }
+
+  return parseJsonObject(raw);
+}
+
+export function parseFormBeacon(raw: string): BeaconBody {
+  const params = new URLSearchParams(raw);
+
+  // Trackers usually wrap the JSON event in a single field; fall back to plain fields otherwise.
+  for (const field of ["payload", "data"]) {
+    const wrapped = params.get(field);
+    const parsed = wrapped ? parseJsonObject(wrapped) : undefined;
+    if (parsed) {
+      return parsed;
+    }
+  }
+
+  return Object.fromEntries(params.entries());
+}
+
+export function registerBeaconParsers(app: FastifyInstance) {
+  app.removeContentTypeParser("text/plain");
+
+  app.addContentTypeParser("text/plain", { parseAs: "string" }, (_request, body, done) => {
+    const parsed = parseTextBeacon(String(body));
+    if (!parsed) {
+      const error = new Error("Invalid beacon payload") as Error & { statusCode: number };
+      error.statusCode = 400;
+      done(error, undefined);
+      return;
+    }
+
+    done(null, parsed);
+  });
+
+  app.addContentTypeParser(
+    "application/x-www-form-urlencoded",
+    { parseAs: "string" },
+    (_request, body, done) => {
+      done(null, parseFormBeacon(String(body)));
+    },
+  );
+}
@@ -0,0 +1,51 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { env } from "../config/env";
+import { BotVerdict, detectBot } from "../lib/bot-detection";
+import { isBotSession } from "../lib/db";
+import { getClientIp, headerString } from "./request";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    botVerdict: BotVerdict | null;
+  }
+}
+
+function bodyNumber(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Batches may carry the session id only on their events.
+function bodySessionId(body: Record<string, unknown>): string | undefined {
+  const events = Array.isArray(body.events) ? (body.events as unknown[]) : [];
+  const first = events.find(
+    (event): event is Record<string, unknown> => typeof event === "object" && event !== null,
+  );
+  const sessionId = body.sessionId ?? body.session_id ?? first?.sessionId ?? first?.session_id ?? body.id;
+  return typeof sessionId === "string" && sessionId.trim() ? sessionId : undefined;
+}
+
+export async function flagBots(request: FastifyRequest, reply: FastifyReply) {
+  const body = (request.body ?? {}) as Record<string, unknown>;
+
+  request.botVerdict = detectBot({
+    userAgent: typeof body.userAgent === "string" ? body.userAgent : headerString(request.headers["user-agent"]),
+    ipAddress: getClientIp(request),
+    acceptLanguage: headerString(request.headers["accept-language"]),
+    secChUa: headerString(request.headers["sec-ch-ua"]),
+    webdriver: body.webdriver === true || body.webdriver === "true",
+    screenWidth: bodyNumber(body.screenWidth),
+    screenHeight: bodyNumber(body.screenHeight),
+  });
+
+  // Once a session is flagged, its later events stay bot even when they look human on their own.
+  const sessionId = bodySessionId(body);
+  if (!request.botVerdict.isBot && sessionId && (await isBotSession(sessionId))) {
+    request.botVerdict = { isBot: true, reason: "session" };
+  }
+
+  if (request.botVerdict.isBot && env.botFilterMode === "drop") {
+    request.log.debug({ reason: request.botVerdict.reason }, "Dropped bot event");
+    return reply.status(202).send({ success: true });
+  }
+}
@@ -0,0 +1,59 @@
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import { anonymizeStoredIps, purgeExpiredAdminSessions, purgeExpiredEvents, purgeOldLoginAttempts } from "../lib/db";
+
+function schedule(app: FastifyInstance, name: string, intervalMs: number, job: () => Promise<unknown>) {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await job();
+    } catch (error) {
+      app.log.error({ err: error }, `Background job "${name}" failed`);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  timer.unref();
+  app.addHook("onClose", async () => {
+    clearInterval(timer);
+  });
+}
+
+export function startBackgroundJobs(app: FastifyInstance) {
+  // One-off backfill: rows written before anonymization existed still hold full addresses.
+  anonymizeStoredIps()
+    .then((updated) => {
+      if (updated > 0) {
+        app.log.info({ updated }, "Anonymized stored session IP addresses");
+      }
+    })
+    .catch((error: unknown) => {
+      app.log.error({ err: error }, 'Background job "ip-backfill" failed');
+    });
+
+  schedule(app, "admin-session-cleanup", env.adminSessionCleanupMinutes * 60 * 1000, async () => {
+    const removed = await purgeExpiredAdminSessions();
+    if (removed > 0) {
+      app.log.info({ removed }, "Purged expired admin sessions");
+    }
+
+    const removedAttempts = await purgeOldLoginAttempts();
+    if (removedAttempts > 0) {
+      app.log.info({ removed: removedAttempts }, "Purged old login attempts");
+    }
+  });
+
+  schedule(app, "data-retention", env.retentionIntervalMinutes * 60 * 1000, async () => {
+    const deleted = await purgeExpiredEvents();
+    if (Object.values(deleted).some((count) => count > 0)) {
+      app.log.info({ deleted }, "Purged raw events past retention");
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { env } from "../config/env";
+import { headerString } from "./request";
+
+export function hasDoNotTrack(request: FastifyRequest): boolean {
+  if (env.privacyDntMode === "ignore") {
+    return false;
+  }
+
+  return headerString(request.headers.dnt) === "1" || headerString(request.headers["sec-gpc"]) === "1";
+}
+
+export async function honorDoNotTrack(request: FastifyRequest, reply: FastifyReply) {
+  if (env.privacyDntMode === "drop" && hasDoNotTrack(request)) {
+    return reply.status(202).send({ success: true });
+  }
+}
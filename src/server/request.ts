@@ -0,0 +1,29 @@
+import { FastifyRequest } from "fastify";
+
+export function headerString(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim().length > 0) {
+    return value.trim();
+  }
+
+  if (Array.isArray(value) && value.length > 0) {
+    const first = value[0];
+    return typeof first === "string" && first.trim().length > 0 ? first.trim() : undefined;
+  }
+
+  return undefined;
+}
+
+export function parseId(value: string): number | null {
+  // Plain digits only: Number() would also accept " 1", "1e3" or "0x10".
+  if (!/^[1-9]\d*$/.test(value)) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+}
+
+// Forwarded headers are only honoured for the proxy hops configured in TRUST_PROXY; any client can set them.
+export function getClientIp(request: FastifyRequest) {
+  return request.ip;
+}
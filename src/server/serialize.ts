@@ -0,0 +1,6 @@
+export function serializeTimestamps(record: { createdAt: Date; updatedAt: Date }) {
+  return {
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,57 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { findSiteByKey } from "../lib/db";
+import { headerString } from "./request";
+
+export type TrackedSite = {
+  id: number;
+  key: string;
+};
+
+declare module "fastify" {
+  interface FastifyRequest {
+    site: TrackedSite | null;
+  }
+}
+
+function getSiteKey(request: FastifyRequest): string | undefined {
+  const fromHeader = headerString(request.headers["x-site-key"]);
+  if (fromHeader) {
+    return fromHeader;
+  }
+
+  const body = request.body as Record<string, unknown> | undefined;
+  const fromBody = body?.siteKey ?? body?.site_key;
+  if (typeof fromBody === "string" && fromBody.trim().length > 0) {
+    return fromBody.trim();
+  }
+
+  const query = request.query as Record<string, unknown> | undefined;
+  return typeof query?.site === "string" && query.site.trim().length > 0 ? query.site.trim() : undefined;
+}
+
+export async function requireSite(request: FastifyRequest, reply: FastifyReply) {
+  const key = getSiteKey(request);
+  if (!key) {
+    return reply.status(400).send({ error: "Missing site key" });
+  }
+
+  const site = await findSiteByKey(key);
+  if (!site) {
+    return reply.status(404).send({ error: "Unknown site key" });
+  }
+
+  request.site = site;
+}
+
+export async function resolveSiteFilter(key?: string): Promise<{ siteId?: number } | { error: string }> {
+  if (!key || key.trim().length === 0) {
+    return {};
+  }
+
+  const site = await findSiteByKey(key.trim());
+  if (!site) {
+    return { error: "Unknown site." };
+  }
+
+  return { siteId: site.id };
+}